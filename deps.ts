@@ -1 +1,6 @@
 export * from "https://deno.land/x/evt@v2.4.13/mod.ts";
+export {
+  decode as decodeMessagePack,
+  encode as encodeMessagePack,
+  type ValueType as MessagePackValue,
+} from "https://deno.land/std@0.224.0/msgpack/mod.ts";
@@ -1,2 +1,18 @@
 export * from "./src/classes/Client.ts";
 export * from "./src/classes/Hub.ts";
+export * from "./src/classes/Errors.ts";
+export * from "./src/classes/CoreClient.ts";
+export * from "./src/protocols/HubProtocol.ts";
+export * from "./src/protocols/JsonHubProtocol.ts";
+export * from "./src/protocols/MessagePackHubProtocol.ts";
+export * from "./src/utils/retryPolicies.ts";
+export * from "./src/utils/outboundQueue.ts";
+export * from "./src/utils/cookieJar.ts";
+export * from "./src/utils/proxy.ts";
+export * from "./src/utils/tls.ts";
+export * from "./src/transports/Transport.ts";
+export * from "./src/transports/MemoryTransport.ts";
+export type {
+  CompressionOptions,
+  DeflateParameters,
+} from "./src/custom_socket/deflate.ts";
@@ -1,9 +1,34 @@
 import { Evt, to } from "../../deps.ts";
 import { Hub } from "./Hub.ts";
+import { AbortError } from "./Errors.ts";
 import {
-  createSocketConnection,
-  type WS,
-} from "../utils/createSocketConnection.ts";
+  fetchHttpClient,
+  type HttpClient,
+  type Transport,
+  type TransportSocket,
+  webSocketTransport,
+} from "../transports/Transport.ts";
+import { ServerSentEvents } from "../transports/ServerSentEvents.ts";
+import { LongPolling } from "../transports/LongPolling.ts";
+import type {
+  ReconnectingEvent,
+  RetryContext,
+  RetryPolicy,
+} from "../utils/retryPolicies.ts";
+import {
+  OutboundQueue,
+  type OutboundQueueOptions,
+} from "../utils/outboundQueue.ts";
+import {
+  type CookieJar,
+  type FetchOptions,
+  fetchWithCookies,
+  MemoryCookieJar,
+} from "../utils/cookieJar.ts";
+import { type ProxyOptions, resolveProxy } from "../utils/proxy.ts";
+import { createHttpClient, type TlsOptions } from "../utils/tls.ts";
+import type { CompressionOptions } from "../custom_socket/deflate.ts";
+import { HandshakeError } from "../custom_socket/handshake.ts";
 
 /**
  * SignalR connection state.
@@ -14,6 +39,11 @@ export enum ConnectionState {
   disconnected = 4,
 }
 
+/**
+ * SignalR transport types, named as they are sent to the server.
+ */
+export type TransportType = "webSockets" | "serverSentEvents" | "longPolling";
+
 /**
  * SignalR error codes enum.
  */
@@ -26,6 +56,7 @@ export enum ErrorCode {
   connectLost = "Connection lost",
   negotiateError = "Negotiate error",
   startError = "Start error",
+  handshakeError = "Handshake error",
   connectError = "Connect error",
   socketError = "Socket error",
   abortError = "Abort error",
@@ -71,6 +102,14 @@ export interface Connection<
    * The connection id
    */
   id?: string;
+  /**
+   * The ID of the latest message received, used to resume the connection.
+   */
+  messageId?: string;
+  /**
+   * The latest groups token received, used to restore group memberships.
+   */
+  groupsToken?: string;
 }
 /**
  * SignalR message
@@ -88,6 +127,10 @@ export interface Message {
    * The message's arguments.
    */
   A?: unknown[];
+  /**
+   * The hub state changes.
+   */
+  S?: Record<string, unknown>;
 }
 
 /**
@@ -99,17 +142,59 @@ export interface HubMessageData {
    */
   M?: Message[];
   /**
-   * Invocation ID of the message.
+   * The message ID.
    */
-  I?: number;
+  C?: string;
+  /**
+   * The groups token.
+   */
+  G?: string;
+  /**
+   * Invocation ID of the message, prefixed with `P|` for progress messages.
+   */
+  I?: number | string;
   /**
    * Message error type.
    */
   E?: string;
   /**
-   * The result, whether it was successful.
+   * Whether the error was thrown as a `HubException`.
+   */
+  H?: boolean;
+  /**
+   * The error data sent with a `HubException`.
+   */
+  D?: unknown;
+  /**
+   * The server stack trace of the error.
+   */
+  T?: string;
+  /**
+   * The result of the invocation.
    */
-  R?: boolean;
+  R?: unknown;
+  /**
+   * Progress data of a running invocation.
+   */
+  P?: ProgressData;
+  /**
+   * The hub state changes.
+   */
+  S?: Record<string, unknown>;
+}
+
+/**
+ * Progress data reported by a hub method.
+ */
+export interface ProgressData {
+  /**
+   * Invocation ID of the message reporting progress.
+   */
+  I: number | string;
+  /**
+   * The progress value.
+   */
+  D: unknown;
 }
 
 /**
@@ -136,6 +221,76 @@ export interface ClientOptions {
    * Whether to include credentials from `credentials: include` in Fetch.
    */
   includeCredentials?: boolean;
+  /**
+   * The transports to attempt, in order of preference.
+   */
+  transports?: TransportType[];
+  /**
+   * The policy deciding the delay before each reconnect attempt.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Hold invocations made while reconnecting and send them once connected.
+   * Invocations throw while reconnecting when not set.
+   */
+  outboundQueue?: OutboundQueueOptions;
+  /**
+   * Function returning the access token, called before every request.
+   */
+  accessTokenFactory?: () => string | Promise<string>;
+  /**
+   * The cookie jar to send and store cookies with. Default: a MemoryCookieJar
+   */
+  cookieJar?: CookieJar;
+  /**
+   * The proxy for all connections, false to connect directly. Default: from
+   * the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables
+   */
+  proxy?: ProxyOptions | false;
+  /**
+   * The TLS options for secure connections, such as a private CA or a client
+   * certificate.
+   */
+  tls?: TlsOptions;
+  /**
+   * Whether WebSocket connections offer permessage-deflate compression, or
+   * its options. Browsers negotiate compression themselves. Default: false
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * The transport opening WebSocket connections, such as a MemoryTransport in
+   * tests. Default: WebSocket in browsers, the custom WebSocket client elsewhere
+   */
+  transport?: Transport;
+  /**
+   * The HTTP client sending the negotiate, start and abort requests, and the
+   * requests of the HTTP based transports. Default: fetch
+   */
+  http?: HttpClient;
+}
+
+/**
+ * Details of a `disconnected` event.
+ */
+export interface DisconnectedEvent {
+  /**
+   * Why the client disconnected: "failed" when the connection closed,
+   * "end", "retry limit reached", or with ASP.NET Core, the error of the
+   * server's close message or "closed".
+   */
+  reason: string;
+  /**
+   * The close code of the connection, when it closed.
+   */
+  code?: number;
+  /**
+   * The close reason sent by the server, when the connection closed.
+   */
+  closeReason?: string;
+  /**
+   * Whether the connection closed with a close handshake.
+   */
+  wasClean?: boolean;
 }
 
 /**
@@ -152,20 +307,16 @@ export class SignalRHubError extends Error {
 }
 
 /**
- * A SignalR client for Deno which supports ASP.net
- * @extends {Evt<[ "connected", undefined ] | [ "disconnected", string ] | [ "reconnecting", number ] | [ "error", StandardError ]>}
+ * The transport, authentication and reconnect logic shared by the SignalR
+ * clients.
+ * @extends {Evt<[ "connected", undefined ] | [ "disconnected", DisconnectedEvent ] | [ "reconnecting", ReconnectingEvent ] | [ "error", StandardError ]>}
  */
-export class Client<
-  HubMessage extends [string, string, unknown[], unknown[]] = [
-    string,
-    string,
-    unknown[],
-    unknown[],
-  ],
+export abstract class BaseClient<
+  HubMessage extends [string, string, unknown[], unknown[]],
 > extends Evt<
   | ["connected", undefined]
-  | ["disconnected", string]
-  | ["reconnecting", number]
+  | ["disconnected", DisconnectedEvent]
+  | ["reconnecting", ReconnectingEvent]
   | ["error", StandardError]
 > {
   /**
@@ -194,62 +345,90 @@ export class Client<
   public reconnectDelayTime = 5000;
 
   /**
-   * The timeout for calls in milliseconds.
+   * The policy deciding the delay before each reconnect attempt.
+   * Reconnects forever after `reconnectDelayTime` when not set.
    */
-  public callTimeout = 5000;
+  public retryPolicy?: RetryPolicy;
 
   /**
-   * The SignalR connection.
+   * The queue holding invocations made while reconnecting, when enabled.
    */
-  public connection: Connection<HubMessage>;
+  public outboundQueue?: OutboundQueue;
 
   /**
-   * Whether it has ever been initialized.
+   * Function returning the access token, called before every request.
    */
-  public _bound = false;
+  public accessTokenFactory?: () => string | Promise<string>;
 
   /**
-   * The websocket connection
+   * The cookie jar to send and store cookies with.
    */
-  public _websocket?: WS | WebSocket;
+  public cookieJar: CookieJar = new MemoryCookieJar();
 
   /**
-   * The hub(s) to connect to.
+   * The proxy for all connections, false to connect directly. Read from the
+   * `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables when not set.
    */
-  public _hubNames: HubMessage[0][] | unknown[];
+  public proxy?: ProxyOptions | false;
 
   /**
-   * The latest invocation ID.
+   * The TLS options for secure connections.
    */
-  public _invocationId = 0;
+  public tls?: TlsOptions;
 
   /**
-   * Call timeout in milliseconds.
+   * Whether WebSocket connections offer permessage-deflate compression, or
+   * its options.
    */
-  public _callTimeout = 0;
+  public compression?: boolean | CompressionOptions;
 
   /**
-   * The timeout to keep alive in milliseconds.
+   * The transport opening WebSocket connections.
    */
-  public _keepAliveTimeout = 5000;
+  public transport: Transport = webSocketTransport;
 
   /**
-   * Whether to keep the connection alive.
+   * The HTTP client sending the HTTP requests of the connection.
    */
-  public _keepAlive = true;
+  public http: HttpClient = fetchHttpClient;
 
   /**
-   * Heartbeat interval in milliseconds.
+   * The HTTP clients for fetch by proxy URL.
    */
-  public _beatInterval = 5000;
+  public _httpClients: Record<string, Deno.HttpClient> = {};
+
+  /**
+   * The latest access token from the factory.
+   */
+  public _accessToken?: string;
+
+  /**
+   * The timeout for calls in milliseconds.
+   */
+  public callTimeout = 5000;
+
+  /**
+   * The SignalR connection.
+   */
+  public connection: Connection<HubMessage>;
+
+  /**
+   * The websocket connection, or the transport standing in for it.
+   */
+  public _websocket?: TransportSocket;
 
   /**
-   * The setInterval instance ID for the heartbeat.
+   * The latest invocation ID.
+   */
+  public _invocationId = 0;
+
+  /**
+   * The setTimeout instance ID for the heartbeat.
    */
   public _beatTimer?: number;
 
   /**
-   * Amount of times to attempt a reconnect before giving up.
+   * Amount of times a reconnect has been attempted.
    */
   public _reconnectCount = 0;
 
@@ -259,12 +438,21 @@ export class Client<
   public _reconnectTimer?: number;
 
   /**
-   * Construct a new SignalR Client.
+   * The time the connection was lost at in milliseconds.
+   */
+  public _reconnectStartedAt?: number;
+
+  /**
+   * The last error emitted since the connection was lost.
+   */
+  public _lastError?: StandardError;
+
+  /**
+   * Construct a new SignalR client.
    * @param url - URL to connect to.
-   * @param hubs - Hubs to connect to.
    * @param options - Other client options.
    */
-  constructor(url: string, hubs: HubMessage[0][], options?: ClientOptions) {
+  constructor(url: string, options?: Omit<ClientOptions, "transports">) {
     super();
     this.url = url;
     this.connection = {
@@ -272,7 +460,6 @@ export class Client<
       hub: new Hub<HubMessage>(this),
       lastMessageAt: Date.now(),
     };
-    this._hubNames = hubs;
     if (options) {
       if (options.query) this.query = options.query;
       if (options.headers) this.headers = options.headers;
@@ -280,12 +467,343 @@ export class Client<
       if (options.reconnectDelayTime) {
         this.reconnectDelayTime = options.reconnectDelayTime;
       }
+      if (options.retryPolicy) this.retryPolicy = options.retryPolicy;
       if (options.includeCredentials) {
         this.includeCredentials = options.includeCredentials;
       }
+      if (options.accessTokenFactory) {
+        this.accessTokenFactory = options.accessTokenFactory;
+      }
+      if (options.cookieJar) this.cookieJar = options.cookieJar;
+      if (options.proxy !== undefined) this.proxy = options.proxy;
+      if (options.tls) this.tls = options.tls;
+      if (options.compression) this.compression = options.compression;
+      if (options.transport) this.transport = options.transport;
+      if (options.http) this.http = options.http;
+      if (options.outboundQueue) {
+        this.outboundQueue = new OutboundQueue(
+          options.outboundQueue,
+          (invocationId, reason) => {
+            this.connection.hub._rejectInvocation(invocationId, reason);
+          },
+        );
+      }
+    }
+  }
+
+  /**
+   * Send a Hub message to the server.
+   * @param hub - The message hub to send a message to.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  public abstract _sendMessage(
+    hub: HubMessage[0],
+    method: HubMessage[1],
+    args: HubMessage[3],
+  ): void;
+
+  /**
+   * Queue an invocation until connected. Calls which settle while queued,
+   * through their timeout or signal, are not sent.
+   * @param invocationId - The invocation ID.
+   * @param send - Function sending the invocation.
+   */
+  public _queueInvocation(invocationId: number, send: () => void): void {
+    const hub = this.connection.hub;
+    const isCall = invocationId in hub._pending;
+    this.outboundQueue!.enqueue(invocationId, () => {
+      if (!isCall || invocationId in hub._pending) send();
+    });
+  }
+
+  /**
+   * Whether the connection was lost and is being reestablished.
+   */
+  public _isReconnecting(): boolean {
+    return this._reconnectTimer !== undefined ||
+      this.connection.state === ConnectionState.reconnecting;
+  }
+
+  /**
+   * Get a new access token from the factory, if set.
+   */
+  public async _refreshAccessToken(): Promise<void> {
+    if (!this.accessTokenFactory) return;
+    try {
+      this._accessToken = await this.accessTokenFactory();
+    } catch (error) {
+      throw new SignalRHubError(
+        ErrorCode.unauthorized,
+        ErrorCode.unauthorized,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Whether an access token rejected by the server can be refreshed.
+   */
+  public _canRefreshAccessToken(): boolean {
+    return this.accessTokenFactory !== undefined;
+  }
+
+  /**
+   * Get the headers for a request, with the access token if there is one.
+   */
+  public _headers(): Record<string, string> {
+    return this._accessToken
+      ? { ...this.headers, Authorization: `Bearer ${this._accessToken}` }
+      : { ...this.headers };
+  }
+
+  /**
+   * Get the HTTP client to fetch a URL with, when it is fetched through a
+   * proxy or with TLS options.
+   * @param url - The request URL.
+   */
+  public _httpClient(url: string): Deno.HttpClient | undefined {
+    const proxy = resolveProxy(url, this.proxy);
+    if (!proxy && !(this.tls && "Deno" in globalThis)) return;
+    return this._httpClients[proxy?.url ?? ""] ??= createHttpClient(
+      proxy,
+      this.tls,
+    );
+  }
+
+  /**
+   * Close the HTTP clients.
+   */
+  public _closeHttpClients(): void {
+    for (const client of Object.values(this._httpClients)) client.close();
+    this._httpClients = {};
+  }
+
+  /**
+   * Fetch with the request headers and cookies, refreshing the access token and retrying
+   * once if the server responds with 401 Unauthorized.
+   * @param url - The request URL.
+   * @param options - The fetch options.
+   */
+  public async _fetch(
+    url: string,
+    options: FetchOptions,
+  ): Promise<Response> {
+    const client = this._httpClient(url);
+    if (client) options = { ...options, client };
+    const send = (url: string, options: FetchOptions) =>
+      this.http.fetch(url, options);
+    const response = await fetchWithCookies(
+      url,
+      { ...options, headers: this._headers() },
+      this.cookieJar,
+      send,
+    );
+    if (response.status !== 401 || !this._canRefreshAccessToken()) {
+      return response;
+    }
+    await response.body?.cancel();
+    await this._refreshAccessToken();
+    return await fetchWithCookies(
+      url,
+      { ...options, headers: this._headers() },
+      this.cookieJar,
+      send,
+    );
+  }
+
+  /**
+   * Open a connection, refreshing the access token and retrying once if the
+   * server responds to the WebSocket upgrade with 401 Unauthorized.
+   * @param open - Function opening the connection.
+   * @param signal - Signal which cancels the connection before it opens.
+   */
+  public async _openAuthorized<T>(
+    open: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    try {
+      return await open();
+    } catch (error) {
+      if (
+        !(error instanceof HandshakeError) || error.status !== 401 ||
+        !this._canRefreshAccessToken() || signal?.aborted
+      ) {
+        throw error;
+      }
+      await this._refreshAccessToken();
+      return await open();
     }
   }
 
+  /**
+   * Schedule a reconnect attempt after the delay from the retry policy, or
+   * disconnect when the policy gives up.
+   * @param attempt - Function attempting the reconnect.
+   */
+  public _scheduleReconnect(attempt: () => void): void {
+    if (
+      this._reconnectTimer ||
+      (this.connection.state === ConnectionState.reconnecting)
+    ) {
+      return;
+    }
+
+    this._clearBeatTimer();
+    this._close();
+    this._reconnectStartedAt ??= Date.now();
+    const context: RetryContext = {
+      attempt: this._reconnectCount + 1,
+      elapsedTime: Date.now() - this._reconnectStartedAt,
+      error: this._lastError,
+    };
+    const delay = this.retryPolicy
+      ? this.retryPolicy.nextRetryDelay(context)
+      : this.reconnectDelayTime ?? 5000;
+    if (delay === null) {
+      this.connection.state = ConnectionState.disconnected;
+      this._reconnectCount = 0;
+      this._reconnectStartedAt = undefined;
+      this.post(["disconnected", { reason: "retry limit reached" }]);
+      this.outboundQueue?.clear("Reconnect retry limit reached");
+      return;
+    }
+
+    this.post(["reconnecting", { ...context, delay }]);
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectCount++;
+      this.connection.state = ConnectionState.reconnecting;
+      attempt();
+      this._reconnectTimer = undefined;
+    }, delay);
+  }
+
+  /**
+   * Clear the current reconnect timer if it exists
+   */
+  public _clearReconnectTimer(): void {
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = undefined;
+    }
+  }
+
+  /**
+   * Clear the beat timer.
+   */
+  public _clearBeatTimer(): void {
+    if (this._beatTimer) {
+      clearTimeout(this._beatTimer);
+      this._beatTimer = undefined;
+    }
+  }
+
+  /**
+   * Mark the last message time as current time.
+   */
+  public _markLastMessage(): void {
+    this.connection.lastMessageAt = new Date().getTime();
+  }
+
+  /**
+   * Close the SignalR instance by closing the websocket, rejecting the
+   * pending invocations.
+   */
+  public _close(): void {
+    this.connection.hub._rejectPending(
+      undefined,
+      this.outboundQueue?.invocationIds,
+    );
+    // Results of invocations sent on the closed socket won't arrive.
+    this.connection.hub._invocationHubs = {};
+    if (this._websocket) {
+      this._websocket.onclose = () => {};
+      this._websocket.onmessage = () => {};
+      this._websocket.onerror = () => {};
+      this._websocket.close();
+      this._websocket = undefined;
+    }
+  }
+}
+
+/**
+ * A SignalR client for Deno which supports ASP.net
+ * @extends {BaseClient}
+ */
+export class Client<
+  HubMessage extends [string, string, unknown[], unknown[]] = [
+    string,
+    string,
+    unknown[],
+    unknown[],
+  ],
+> extends BaseClient<HubMessage> {
+  /**
+   * The transports to attempt, in order of preference.
+   */
+  public transports: TransportType[] = [
+    "webSockets",
+    "serverSentEvents",
+    "longPolling",
+  ];
+
+  /**
+   * Whether it has ever been initialized.
+   */
+  public _bound = false;
+
+  /**
+   * The transport currently in use.
+   */
+  public _transport: TransportType = "webSockets";
+
+  /**
+   * The transports offered by both the client and the server.
+   */
+  public _availableTransports: TransportType[] = [];
+
+  /**
+   * The hub(s) to connect to.
+   */
+  public _hubNames: HubMessage[0][] | unknown[];
+
+  /**
+   * Whether the connection has been started, so it can be resumed.
+   */
+  public _started = false;
+
+  /**
+   * The timeout to keep alive in milliseconds.
+   */
+  public _keepAliveTimeout = 5000;
+
+  /**
+   * Whether to keep the connection alive.
+   */
+  public _keepAlive = true;
+
+  /**
+   * The delay between long polling requests in milliseconds.
+   */
+  public _longPollDelay = 0;
+
+  /**
+   * Heartbeat interval in milliseconds.
+   */
+  public _beatInterval = 5000;
+
+  /**
+   * Construct a new SignalR Client.
+   * @param url - URL to connect to.
+   * @param hubs - Hubs to connect to.
+   * @param options - Other client options.
+   */
+  constructor(url: string, hubs: HubMessage[0][], options?: ClientOptions) {
+    super(url, options);
+    this._hubNames = hubs;
+    if (options?.transports) this.transports = options.transports;
+  }
+
   /**
    * Process a SignalR message received from server.
    * @param message - The SignalR hub message.
@@ -294,21 +812,22 @@ export class Client<
     this._markLastMessage();
     if (message.type === "message" && message.data !== "{}") {
       const data: HubMessageData = JSON.parse(message.data);
+      if (data.C) this.connection.messageId = data.C;
+      if (data.G) this.connection.groupsToken = data.G;
       if (data.M) {
         for (const message of data.M) {
           if (this.connection && message.H && message.M) {
-              this.connection.hub.handlers
-                .filter(([hub, method]) => (message.H === hub) && (message.M === method))
-                .forEach(([_hub, _method, callback]) => callback(message.A!));
-
-              this.connection.hub.anyHandlers
-                .filter(([hub]) => message.H === hub)
-                .forEach(([_hub, callback]) => callback(message.M!, message.A!))
+            this.connection.hub._mergeState(message.H, message.S);
+            this.connection.hub._dispatch(message.H, message.M, message.A!);
           }
         }
-      } else if (data.I) {
+      } else if (typeof data.I === "string" && data.I.startsWith("P|")) {
+        if (this.connection && data.P) {
+          this.connection.hub._handleProgress(Number(data.P.I), data.P.D);
+        }
+      } else if (data.I !== undefined) {
         if (this.connection) {
-          this.connection.hub._handleCallback(data.I, data.E, data.R);
+          this.connection.hub._handleCallback(Number(data.I), data);
         }
       }
     }
@@ -328,60 +847,61 @@ export class Client<
     method: Method,
     args: Extract<HubMessage, [Hub, Method, unknown, unknown]>[3],
   ): void {
+    const invocationId = this._invocationId;
+    const state = this.connection.hub.state[hub];
     const payload = JSON.stringify({
       H: hub,
       M: method,
       A: args,
-      I: this._invocationId,
+      I: invocationId,
+      S: state && Object.keys(state).length ? state : undefined,
     });
     this._invocationId++;
-    if (this._websocket && (this._websocket.readyState === 1)) {
-      this._websocket.send(payload);
-    } else {
-      throw new TypeError(
-        "WebSocket readyState must be OPEN to send messages.",
-      );
-    }
+    const send = () => {
+      if (this._websocket && (this._websocket.readyState === 1)) {
+        this.connection.hub._invocationHubs[invocationId] = hub;
+        this._websocket.send(payload);
+      } else {
+        throw new TypeError(
+          "WebSocket readyState must be OPEN to send messages.",
+        );
+      }
+    };
+    if (this.outboundQueue && this._isReconnecting()) {
+      this._queueInvocation(invocationId, send);
+    } else send();
   }
 
   /**
    * Negotiate with the endpoint for a connection token.
    * @param protocol - The SignalR protocol version.
+   * @param signal - Signal which cancels the request.
    */
-  public async _negotiate(protocol = 1.5): Promise<Record<string, unknown>> {
+  public async _negotiate(
+    protocol = 1.5,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     const query = new URLSearchParams({
       ...this.query,
       connectionData: JSON.stringify(this._hubNames),
       clientProtocol: String(protocol),
     });
-    const headers = new Headers(this.headers);
-
     const url = new URL(`${this.url}/negotiate`);
     url.search = query.toString();
+    await this._refreshAccessToken();
     let data: Response;
 
     try {
-      const options = {
-        headers,
-      };
-      // @ts-ignore: Ignore in Node
+      const options: RequestInit = { signal };
       if (this.includeCredentials) options.credentials = "include";
-      data = await fetch(url.toString(), options);
+      data = await this._fetch(url.toString(), options);
     } catch (err) {
+      if (signal?.aborted) throw new AbortError(signal.reason);
       throw err;
     }
 
     if (data.ok) {
-      const negotiateProtocol = (await data.json()) as Record<string, unknown>;
-      if (!negotiateProtocol.TryWebSockets) {
-        throw new SignalRHubError(
-          ErrorCode.unsupportedWebsocket,
-          ErrorCode.unsupportedWebsocket,
-          null,
-        );
-      }
-
-      return negotiateProtocol;
+      return (await data.json()) as Record<string, unknown>;
     } else if (
       data.status === 302 || data.status === 401 || data.status === 403
     ) {
@@ -400,55 +920,181 @@ export class Client<
   }
 
   /**
-   * Connect to the websocket and establish connection.
+   * Open a connection through a transport.
+   * Resolves once the connection is open and rejects if it fails beforehand.
+   * @param transport - The transport to connect with.
    * @param protocol - The SignalR protocol version.
+   * @param reconnect - Whether to resume the connection through the reconnect endpoint.
+   * @param signal - Signal which cancels the connection before it opens.
    */
-  public async _connect(protocol = 1.5): Promise<void> {
-    const url = new URL(`${this.url.replace(/^http/, "ws")}/connect`);
+  public async _openTransport(
+    transport: TransportType,
+    protocol = 1.5,
+    reconnect = false,
+    signal?: AbortSignal,
+  ): Promise<TransportSocket> {
     const query = new URLSearchParams({
       ...this.query,
       connectionData: JSON.stringify(this._hubNames),
       clientProtocol: String(protocol),
-      transport: "webSockets",
+      transport,
       connectionToken: String(this.connection.token),
-      tid: "10",
     });
-    url.search = query.toString();
+    const sendUrl = new URL(`${this.url}/send`);
+    sendUrl.search = query.toString();
+    query.set("tid", "10");
+    if (reconnect) {
+      query.set("messageId", this.connection.messageId ?? "");
+      query.set("groupsToken", this.connection.groupsToken ?? "");
+    }
+    const path = reconnect ? "reconnect" : "connect";
 
-    const webSocket = await createSocketConnection(url.toString(), {
-      headers: this.headers,
+    let socket: TransportSocket;
+    if (transport === "webSockets") {
+      const url = new URL(`${this.url.replace(/^http/, "ws")}/${path}`);
+      url.search = query.toString();
+      socket = await this.transport.connect(url.toString(), {
+        headers: this.headers,
+        accessToken: this._accessToken,
+        cookieJar: this.cookieJar,
+        proxy: this.proxy,
+        tls: this.tls,
+        compression: this.compression,
+        signal,
+      });
+    } else if (transport === "serverSentEvents") {
+      const url = new URL(`${this.url}/${path}`);
+      url.search = query.toString();
+      socket = new ServerSentEvents(url.toString(), sendUrl.toString(), {
+        headers: () => this._headers(),
+        includeCredentials: this.includeCredentials,
+        cookieJar: this.cookieJar,
+        httpClient: this._httpClient(url.toString()),
+        http: this.http,
+        signal,
+      });
+    } else {
+      const url = new URL(`${this.url}/${path}`);
+      url.search = query.toString();
+      const pollUrl = new URL(`${this.url}/poll`);
+      pollUrl.search = query.toString();
+      socket = new LongPolling(
+        url.toString(),
+        pollUrl.toString(),
+        sendUrl.toString(),
+        {
+          headers: () => this._headers(),
+          includeCredentials: this.includeCredentials,
+          pollDelay: this._longPollDelay,
+          messageId: this.connection.messageId,
+          groupsToken: this.connection.groupsToken,
+          cookieJar: this.cookieJar,
+          httpClient: this._httpClient(url.toString()),
+          http: this.http,
+          signal,
+        },
+      );
+    }
+
+    return await new Promise((resolve, reject) => {
+      socket.onopen = () => resolve(socket);
+      socket.onerror = (event: Event | ErrorEvent) => {
+        reject("error" in event ? event.error : event);
+      };
+      socket.onclose = () => {
+        reject(new Error(`${transport} connection closed before opening`));
+      };
     });
+  }
 
-    webSocket.onopen = async () => {
-      this._invocationId = 0;
-      this._callTimeout = 0;
+  /**
+   * Connect through the first available transport and establish connection.
+   * @param protocol - The SignalR protocol version.
+   * @param reconnect - Whether to resume the started connection instead of starting it.
+   * @param signal - Signal which cancels connecting and the start request.
+   */
+  public async _connect(
+    protocol = 1.5,
+    reconnect = false,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this._refreshAccessToken();
+    let socket: TransportSocket | undefined;
+    let lastError: unknown = null;
+    // A started connection is resumed over the transport it started on.
+    const transports = reconnect
+      ? [this._transport]
+      : this._availableTransports;
+    for (const transport of transports) {
       try {
-        await this._start(protocol);
-        this._reconnectCount = 0;
-        this.post(["connected", undefined]);
-        if (this.connection) {
-          this.connection.state = ConnectionState.connected;
-        }
-        this._markLastMessage();
-        if (this._keepAlive) this._beat();
+        socket = await this._openAuthorized(
+          () => this._openTransport(transport, protocol, reconnect, signal),
+          signal,
+        );
+        this._transport = transport;
+        break;
       } catch (error) {
-        this.connection.state = ConnectionState.disconnected;
-        await this._error(error.code, error.message);
+        if (signal?.aborted) throw new AbortError(signal.reason);
+        lastError = error;
       }
-    };
-    webSocket.onmessage = (message: MessageEvent<unknown>) => {
+    }
+    if (!socket) {
+      throw new SignalRHubError(
+        ErrorCode.connectError,
+        ErrorCode.connectError,
+        lastError,
+      );
+    }
+
+    socket.onmessage = (message: MessageEvent<unknown>) => {
       this._receiveMessage(message);
     };
-    webSocket.onerror = (event: Event | ErrorEvent) => {
+    socket.onerror = (event: Event | ErrorEvent) => {
       if ("error" in event) this._error(ErrorCode.socketError, event.error);
     };
-    webSocket.onclose = () => {
-      this._callTimeout = 1000;
+    socket.onclose = (event: CloseEvent) => {
       this.connection.state = ConnectionState.disconnected;
-      this.post(["disconnected", "failed"]);
+      this.post(["disconnected", {
+        reason: "failed",
+        code: event.code,
+        closeReason: event.reason,
+        wasClean: event.wasClean,
+      }]);
+      this.connection.hub._rejectPending(
+        undefined,
+        this.outboundQueue?.invocationIds,
+      );
       this._reconnect();
     };
-    this._websocket = webSocket;
+    this._websocket = socket;
+
+    if (!reconnect && !this.outboundQueue?.size) this._invocationId = 0;
+    try {
+      if (!reconnect) await this._start(protocol, signal);
+      this._started = true;
+      this._reconnectCount = 0;
+      this._reconnectStartedAt = undefined;
+      this._lastError = undefined;
+      this.post(["connected", undefined]);
+      if (this.connection) {
+        this.connection.state = ConnectionState.connected;
+      }
+      try {
+        this.outboundQueue?.flush();
+      } catch {
+        // The close event will handle the lost connection.
+      }
+      this._markLastMessage();
+      // Long polling servers don't send keep-alives.
+      if (this._keepAlive && this._transport !== "longPolling") this._beat();
+    } catch (error) {
+      this.connection.state = ConnectionState.disconnected;
+      if (error instanceof AbortError) {
+        this._close();
+        throw error;
+      }
+      await this._error(error.code, error.message);
+    }
   }
 
   /**
@@ -457,33 +1103,15 @@ export class Client<
    * @param protocol - The SignalR protocol version.
    */
   public _reconnect(restart = false, protocol = 1.5): void {
-    if (
-      this._reconnectTimer ||
-      (this.connection.state === ConnectionState.reconnecting)
-    ) {
-      return;
-    }
-
-    this._clearBeatTimer();
-    this._close();
-    this._reconnectTimer = setTimeout(() => {
-      this._reconnectCount++;
-      this.connection.state = ConnectionState.reconnecting;
-      this.post(["reconnecting", this._reconnectCount]);
+    this._scheduleReconnect(() => {
       if (restart) this.start(protocol).then();
-      else this._connect(protocol).then();
-      this._reconnectTimer = undefined;
-    }, this.reconnectDelayTime ?? 5000);
-  }
-
-  /**
-   * Clear the current reconnect timer if it exists
-   */
-  public _clearReconnectTimer(): void {
-    if (this._reconnectTimer) {
-      clearTimeout(this._reconnectTimer);
-      this._reconnectTimer = undefined;
-    }
+      else {
+        this._connect(protocol, this._started).catch(async (error) => {
+          this.connection.state = ConnectionState.disconnected;
+          await this._error(error.code, error.message);
+        });
+      }
+    });
   }
 
   /**
@@ -503,48 +1131,33 @@ export class Client<
     }
   }
 
-  /**
-   * Clear the beat timer.
-   */
-  public _clearBeatTimer(): void {
-    if (this._beatTimer) {
-      clearTimeout(this._beatTimer);
-      this._beatTimer = undefined;
-    }
-  }
-
-  /**
-   * Mark the last message time as current time.
-   */
-  public _markLastMessage(): void {
-    this.connection.lastMessageAt = new Date().getTime();
-  }
-
   /**
    * Start the SignalR connection.
    * @param protocol - The SignalR protocol version.
+   * @param signal - Signal which cancels the request.
    */
-  public async _start(protocol = 1.5): Promise<unknown> {
+  public async _start(
+    protocol = 1.5,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
     const query = new URLSearchParams({
       ...this.query,
       connectionData: JSON.stringify(this._hubNames),
       clientProtocol: String(protocol),
-      transport: "webSockets",
+      transport: this._transport,
       connectionToken: String(this.connection.token),
     });
-    const headers = new Headers(this.headers);
     const url = new URL(`${this.url}/start`);
     url.search = query.toString();
+    await this._refreshAccessToken();
 
     let data: Response;
     try {
-      const options = {
-        headers,
-      };
-      // @ts-ignore: Ignore in Node
+      const options: RequestInit = { signal };
       if (this.includeCredentials) options.credentials = "include";
-      data = await fetch(url.toString(), options);
+      data = await this._fetch(url.toString(), options);
     } catch (error) {
+      if (signal?.aborted) throw new AbortError(signal.reason);
       throw new SignalRHubError(
         ErrorCode.startError,
         ErrorCode.startError,
@@ -574,29 +1187,27 @@ export class Client<
   /**
    * Abort the SignalR connection
    * @param protocol - The SignalR client protocol
+   * @param signal - Signal which cancels the request
    */
-  public async _abort(protocol = 1.5): Promise<void> {
+  public async _abort(protocol = 1.5, signal?: AbortSignal): Promise<void> {
     const query = new URLSearchParams({
       ...this.query,
       connectionData: JSON.stringify(this._hubNames),
       clientProtocol: String(protocol),
-      transport: "webSockets",
+      transport: this._transport,
       connectionToken: String(this.connection.token),
     });
-    const headers = new Headers(this.headers);
     const url = new URL(`${this.url}/abort`);
     url.search = query.toString();
+    await this._refreshAccessToken();
 
     let data: Response;
     try {
-      const options = {
-        method: "POST",
-        headers,
-      };
-      // @ts-ignore: Ignore in Node
+      const options: RequestInit = { method: "POST", signal };
       if (this.includeCredentials) options.credentials = "include";
-      data = await fetch(url.toString(), options);
+      data = await this._fetch(url.toString(), options);
     } catch (error) {
+      if (signal?.aborted) throw new AbortError(signal.reason);
       throw new SignalRHubError(
         ErrorCode.abortError,
         ErrorCode.abortError,
@@ -629,10 +1240,11 @@ export class Client<
    * @param extra - Extra data to emit
    */
   public async _error(code: ErrorCode, extra?: unknown): Promise<void> {
-    this.post(["error", {
+    this._lastError = {
       code: code,
       message: extra,
-    }]);
+    };
+    this.post(["error", this._lastError]);
     if (code === ErrorCode.negotiateError || code === ErrorCode.connectError) {
       await this._reconnect(true);
     } else if (
@@ -642,24 +1254,14 @@ export class Client<
     }
   }
 
-  /**
-   * Close the SignalR instance by closing the websocket.
-   */
-  public _close(): void {
-    if (this._websocket) {
-      this._websocket.onclose = () => {};
-      this._websocket.onmessage = () => {};
-      this._websocket.onerror = () => {};
-      this._websocket.close();
-      this._websocket = undefined;
-    }
-  }
-
   /**
    * Start the SignalR connection.
+   * Rejects with an `AbortError` if the signal aborts before the connection
+   * is established.
    * @param protocol - The client protocol version.
+   * @param signal - Signal which cancels negotiating and connecting.
    */
-  public async start(protocol = 1.5): Promise<void> {
+  public async start(protocol = 1.5, signal?: AbortSignal): Promise<void> {
     if (!this._bound) {
       if (!this.url) return this._error(ErrorCode.invalidURL);
       if (!(this.url.startsWith("http:") || this.url.startsWith("https:"))) {
@@ -674,7 +1276,8 @@ export class Client<
     }
 
     try {
-      const negotiateProtocol = await this._negotiate(protocol);
+      if (signal?.aborted) throw new AbortError(signal.reason);
+      const negotiateProtocol = await this._negotiate(protocol, signal);
       if (
         typeof negotiateProtocol.ConnectionToken === "string" &&
         typeof negotiateProtocol.ConnectionId === "string"
@@ -682,6 +1285,9 @@ export class Client<
         this.connection.token = negotiateProtocol.ConnectionToken;
         this.connection.id = negotiateProtocol.ConnectionId;
       }
+      this._started = false;
+      this.connection.messageId = undefined;
+      this.connection.groupsToken = undefined;
       if (
         negotiateProtocol.KeepAliveTimeout &&
         typeof negotiateProtocol.KeepAliveTimeout === "number"
@@ -692,24 +1298,43 @@ export class Client<
       } else {
         this._keepAlive = false;
       }
-      await this._connect(protocol);
+      this._longPollDelay = typeof negotiateProtocol.LongPollDelay === "number"
+        ? negotiateProtocol.LongPollDelay * 1000
+        : 0;
+      this._availableTransports = this.transports.filter((transport) =>
+        transport !== "webSockets" || negotiateProtocol.TryWebSockets
+      );
+      if (!this._availableTransports.length) {
+        throw new SignalRHubError(
+          ErrorCode.unsupportedWebsocket,
+          ErrorCode.unsupportedWebsocket,
+          null,
+        );
+      }
+      await this._connect(protocol, false, signal);
     } catch (error) {
       this.connection.state = ConnectionState.disconnected;
+      if (error instanceof AbortError) throw error;
       await this._error(error.code, error.message);
     }
   }
 
   /**
-   * End the SignalR connection.
+   * End the SignalR connection, cancelling a pending reconnect and rejecting
+   * the pending and queued invocations.
    */
   public end() {
-    if (this._websocket) {
-      this.post(["disconnected", "end"]);
-      this._abort().catch();
-      this._clearReconnectTimer();
-      this._clearBeatTimer();
-      this._close();
+    if (this._websocket || this._isReconnecting()) {
+      this.post(["disconnected", { reason: "end" }]);
     }
+    this.outboundQueue?.clear("Connection ended");
+    // The abort request still needs the HTTP clients.
+    const abort = this._websocket ? this._abort() : Promise.resolve();
+    abort.catch(() => {}).finally(() => this._closeHttpClients());
+    this._clearReconnectTimer();
+    this._clearBeatTimer();
+    this._close();
+    this.connection.state = ConnectionState.disconnected;
   }
 }
 
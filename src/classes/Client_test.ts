@@ -0,0 +1,926 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  Client,
+  type ClientOptions,
+  ConnectionState,
+  ErrorCode,
+} from "./Client.ts";
+import {
+  AbortError,
+  ConnectionClosedError,
+  HubInvocationError,
+  InvocationTimeoutError,
+} from "./Errors.ts";
+import { MemoryTransport } from "../transports/MemoryTransport.ts";
+import { HandshakeError } from "../custom_socket/handshake.ts";
+import type { ReconnectingEvent } from "../utils/retryPolicies.ts";
+import * as SignalR from "../../mod.ts";
+import {
+  FakeHubError,
+  FakeServer,
+  type FakeServerOptions,
+} from "../testing/FakeServer.ts";
+
+/**
+ * The messages of the chat hub: [hub, method, received args, sent args].
+ */
+type ChatMessage =
+  | ["chat", "send", unknown[], [string]]
+  | ["chat", "fail", unknown[], []]
+  | ["chat", "message", [string], unknown[]];
+
+/**
+ * Create a client connected to a memory transport answering the negotiate
+ * and start requests.
+ */
+function createClient(options: ClientOptions = {}) {
+  const memory = new MemoryTransport((request) => {
+    const { pathname } = new URL(request.url);
+    if (pathname.endsWith("/negotiate")) {
+      return Response.json({
+        ConnectionToken: "token",
+        ConnectionId: "id",
+        TryWebSockets: true,
+      });
+    }
+    if (pathname.endsWith("/start")) {
+      return Response.json({ Response: "started" });
+    }
+    return new Response(null, { status: 200 });
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    transport: memory,
+    http: memory,
+    transports: ["webSockets"],
+    ...options,
+  });
+  return { client, memory };
+}
+
+Deno.test("start negotiates, connects and starts over the transport", async () => {
+  const { client, memory } = createClient();
+  const connected = client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+  client.start();
+  const { url } = await memory.accept();
+  await connected;
+
+  assertEquals(
+    memory.requests.map((request) => new URL(request.url).pathname),
+    ["/signalr/negotiate", "/signalr/start"],
+  );
+  assertEquals(url.protocol, "ws:");
+  assertEquals(url.pathname, "/signalr/connect");
+  assertEquals(url.searchParams.get("connectionToken"), "token");
+  assertEquals(url.searchParams.get("transport"), "webSockets");
+  client.end();
+});
+
+Deno.test("calls are sent through the transport and resolved by the server", async () => {
+  const { client, memory } = createClient();
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+
+  const result = client.connection.hub.call("chat", "send", ["hello"]);
+  const sent = JSON.parse(await socket.nextMessage());
+  assertEquals(sent, { H: "chat", M: "send", A: ["hello"], I: 0 });
+  socket.send(JSON.stringify({ I: "0", R: "hi" }));
+  assertEquals(await result, "hi");
+  client.end();
+});
+
+Deno.test("messages from the server are dispatched to the hub", async () => {
+  const { client, memory } = createClient();
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", (message) => resolve(message));
+  });
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+
+  socket.send(JSON.stringify({
+    C: "1",
+    M: [{ H: "chat", M: "message", A: ["hello"] }],
+  }));
+  assertEquals(await received, ["hello"]);
+  assertEquals(client.connection.messageId, "1");
+  client.end();
+});
+
+Deno.test("state returned for an invoke is merged", async () => {
+  const { client, memory } = createClient();
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+
+  client.connection.hub.invoke("chat", "send", ["hello"]);
+  const { I } = JSON.parse(await socket.nextMessage());
+  socket.send(JSON.stringify({ I: String(I), S: { room: "lobby" } }));
+  await new Promise((resolve) => setTimeout(resolve));
+  assertEquals(client.connection.hub.getState("chat"), { room: "lobby" });
+  client.end();
+});
+
+Deno.test("end aborts the connection", async () => {
+  const { client, memory } = createClient();
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+
+  client.end();
+  await new Promise((resolve) => setTimeout(resolve));
+  assertEquals(socket.readyState, 3);
+  const abort = memory.requests[2];
+  assertEquals(abort.method, "POST");
+  assertEquals(new URL(abort.url).pathname, "/signalr/abort");
+});
+
+Deno.test("long polling requests go through the HTTP client", async () => {
+  let polls = 0;
+  const memory = new MemoryTransport((request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({ ConnectionToken: "token", ConnectionId: "id" });
+      case "/signalr/start":
+        return Response.json({ Response: "started" });
+      case "/signalr/poll":
+        if (polls++) {
+          // Hold later polls until the client aborts them.
+          return new Promise((_, reject) => {
+            request.signal.addEventListener("abort", reject);
+          });
+        }
+        return Response.json({
+          C: "1",
+          M: [{ H: "chat", M: "message", A: ["hello"] }],
+        });
+      case "/signalr/send":
+        return Response.json({ I: "0", R: "sent" });
+      default:
+        return new Response(null);
+    }
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["longPolling"],
+  });
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+  await client.start();
+
+  assertEquals(await received, ["hello"]);
+  assertEquals(
+    await client.connection.hub.call("chat", "send", ["hi"]),
+    "sent",
+  );
+  const paths = memory.requests.map(({ url }) => new URL(url).pathname);
+  assertEquals([...new Set(paths)].sort(), [
+    "/signalr/connect",
+    "/signalr/negotiate",
+    "/signalr/poll",
+    "/signalr/send",
+    "/signalr/start",
+  ]);
+  client.end();
+});
+
+Deno.test("long polling dispatches the messages of the connect response", async () => {
+  const memory = new MemoryTransport((request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({ ConnectionToken: "token", ConnectionId: "id" });
+      case "/signalr/start":
+        return Response.json({ Response: "started" });
+      case "/signalr/connect":
+        return Response.json({
+          C: "1",
+          S: 1,
+          M: [{ H: "chat", M: "message", A: ["hello"] }],
+        });
+      case "/signalr/poll":
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", reject);
+        });
+      default:
+        return new Response(null);
+    }
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["longPolling"],
+  });
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+  await client.start();
+
+  assertEquals(await received, ["hello"]);
+  assertEquals(client.connection.messageId, "1");
+  client.end();
+});
+
+Deno.test("long polling reconnects and resumes from the message ID", async () => {
+  const polls: URLSearchParams[] = [];
+  const memory = new MemoryTransport(async (request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({ ConnectionToken: "token", ConnectionId: "id" });
+      case "/signalr/start":
+        return Response.json({ Response: "started" });
+      case "/signalr/connect":
+        return Response.json({
+          C: "1",
+          S: 1,
+          M: [{ H: "chat", M: "message", A: ["hello"] }],
+        });
+      case "/signalr/reconnect":
+        return Response.json({ M: [] });
+      case "/signalr/poll":
+        polls.push(new URLSearchParams(await request.text()));
+        // Fail the first poll, and hold the others until the client aborts them.
+        if (polls.length === 1) return new Response(null, { status: 500 });
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", reject);
+        });
+      default:
+        return new Response(null);
+    }
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["longPolling"],
+    reconnectDelayTime: 10,
+  });
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+  await client.start();
+  assertEquals(await received, ["hello"]);
+
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+  while (polls.length < 2) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  const reconnect = memory.requests.find(({ url }) =>
+    new URL(url).pathname === "/signalr/reconnect"
+  );
+  assertEquals(new URL(reconnect!.url).searchParams.get("messageId"), "1");
+  assertEquals(polls.map((poll) => poll.get("messageId")), ["1", "1"]);
+  client.end();
+});
+
+Deno.test("idle long polling connections aren't reported as lost", async () => {
+  const memory = new MemoryTransport((request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({
+          ConnectionToken: "token",
+          ConnectionId: "id",
+          KeepAliveTimeout: 0.05,
+        });
+      case "/signalr/start":
+        return Response.json({ Response: "started" });
+      case "/signalr/poll":
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", reject);
+        });
+      default:
+        return new Response(null);
+    }
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["longPolling"],
+  });
+  const events: string[] = [];
+  client.attach((event) => events.push(event[0]));
+  await client.start();
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  assertEquals(events, ["connected"]);
+  assertEquals(client._beatTimer, undefined);
+  client.end();
+});
+
+/**
+ * Create a memory transport answering the connect request with an event
+ * stream, which closes when the client aborts the request.
+ * @param tryWebSockets - Whether negotiate offers WebSockets.
+ */
+function createEventStreamServer(tryWebSockets = false) {
+  let events!: ReadableStreamDefaultController<string>;
+  let connected!: (request: Request) => void;
+  const connecting = new Promise<Request>((resolve) => connected = resolve);
+  const sent: unknown[] = [];
+  const memory = new MemoryTransport(async (request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({
+          ConnectionToken: "token",
+          ConnectionId: "id",
+          TryWebSockets: tryWebSockets,
+        });
+      case "/signalr/start":
+        return Response.json({ Response: "started" });
+      case "/signalr/connect": {
+        const body = new ReadableStream<string>({
+          start(controller) {
+            events = controller;
+          },
+        });
+        request.signal.addEventListener("abort", () => events.close());
+        connected(request);
+        return new Response(body.pipeThrough(new TextEncoderStream()), {
+          headers: { "Content-Type": "text/event-stream" },
+        });
+      }
+      case "/signalr/send": {
+        const data = new URLSearchParams(await request.text()).get("data")!;
+        sent.push(JSON.parse(data));
+        return Response.json({ I: "0", R: "sent" });
+      }
+      default:
+        return new Response(null);
+    }
+  });
+  return {
+    memory,
+    connecting,
+    sent,
+    write: (data: string) => events.enqueue(data),
+  };
+}
+
+Deno.test("server-sent events open once initialized and send through the send endpoint", async () => {
+  const { memory, connecting, sent, write } = createEventStreamServer();
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["serverSentEvents"],
+  });
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+  const started = client.start();
+  const request = await connecting;
+
+  assertEquals(request.headers.get("Accept"), "text/event-stream");
+  assertEquals(
+    new URL(request.url).searchParams.get("transport"),
+    "serverSentEvents",
+  );
+  await new Promise((resolve) => setTimeout(resolve));
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+  write(": comment\n\ndata: initialized\n\n");
+  await started;
+  assertEquals(client.connection.state, ConnectionState.connected);
+
+  // Events may be split across chunks.
+  write('data: {"C":"1","M":[{"H":"chat",');
+  write('"M":"message","A":["hello"]}]}\n\n');
+  assertEquals(await received, ["hello"]);
+  assertEquals(client.connection.messageId, "1");
+
+  assertEquals(
+    await client.connection.hub.call("chat", "send", ["hi"]),
+    "sent",
+  );
+  assertEquals(sent, [{ H: "chat", M: "send", A: ["hi"], I: 0 }]);
+  client.end();
+});
+
+Deno.test("failed WebSocket connections fall back to server-sent events", async () => {
+  const { memory, connecting, write } = createEventStreamServer(true);
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transport: {
+      connect: () =>
+        Promise.reject(new HandshakeError(503, "Service Unavailable")),
+    },
+  });
+  const started = client.start();
+  await connecting;
+  write("data: initialized\n\n");
+  await started;
+
+  assertEquals(client._transport, "serverSentEvents");
+  assertEquals(client.connection.state, ConnectionState.connected);
+  const start = memory.requests.find(({ url }) => url.includes("/start"))!;
+  assertEquals(
+    new URL(start.url).searchParams.get("transport"),
+    "serverSentEvents",
+  );
+  client.end();
+});
+
+Deno.test("end during the reconnect delay cancels reconnecting", async () => {
+  const { client, memory } = createClient({
+    reconnectDelayTime: 20,
+    outboundQueue: {},
+  });
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+
+  const reconnecting = client.waitFor((event) =>
+    event[0] === "reconnecting" ? [undefined] : null
+  );
+  socket.close(1011);
+  await reconnecting;
+  const queued = client.connection.hub.call("chat", "send", ["hello"]);
+  const disconnected = client.waitFor((event) =>
+    event[0] === "disconnected" ? [event[1]] : null
+  );
+  client.end();
+
+  assertEquals(await disconnected, { reason: "end" });
+  await assertRejects(() => queued, ConnectionClosedError, "Connection ended");
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  assertEquals(memory.connections.length, 1);
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+});
+
+Deno.test("reconnecting events report each attempt until the retry policy gives up", async () => {
+  const { client, memory } = createClient({
+    retryPolicy: {
+      nextRetryDelay: ({ attempt }) => attempt < 3 ? attempt * 10 : null,
+    },
+  });
+  let connects = 0;
+  client.transport = {
+    connect: (url, options) =>
+      connects++
+        ? Promise.reject(new HandshakeError(503, "Service Unavailable"))
+        : memory.connect(url, options),
+  };
+  const events: unknown[][] = [];
+  client.attach((event) => events.push(event));
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+  const gaveUp = client.waitFor((event) =>
+    event[0] === "disconnected" && event[1].reason === "retry limit reached"
+      ? [undefined]
+      : null
+  );
+  socket.close(1011, "Server error");
+  await gaveUp;
+
+  assertEquals(events.map(([name]) => name), [
+    "connected",
+    "disconnected",
+    "reconnecting",
+    "error",
+    "reconnecting",
+    "error",
+    "disconnected",
+  ]);
+  assertEquals(events[1], ["disconnected", {
+    reason: "failed",
+    code: 1011,
+    closeReason: "Server error",
+    wasClean: true,
+  }]);
+  const reconnecting = events
+    .filter(([name]) => name === "reconnecting")
+    .map(([, event]) => event as ReconnectingEvent);
+  for (const { elapsedTime } of reconnecting) {
+    assertEquals(typeof elapsedTime, "number");
+  }
+  const connectError = {
+    code: ErrorCode.connectError,
+    message: ErrorCode.connectError,
+  };
+  assertEquals(
+    reconnecting.map(({ attempt, delay, error }) => ({
+      attempt,
+      delay,
+      error,
+    })),
+    [
+      { attempt: 1, delay: 10, error: undefined },
+      { attempt: 2, delay: 20, error: connectError },
+    ],
+  );
+  assertEquals(events.at(-1), [
+    "disconnected",
+    { reason: "retry limit reached" },
+  ]);
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+  assertEquals(client._reconnectTimer, undefined);
+  client.end();
+});
+
+/**
+ * Create a client whose request to an endpoint, or connection when it is
+ * "connect", hangs until its signal aborts.
+ */
+function createHangingClient(endpoint: "negotiate" | "connect" | "start") {
+  const { client, memory } = createClient({ reconnectDelayTime: 10 });
+  let reached!: () => void;
+  const hanging = new Promise<void>((resolve) => reached = resolve);
+  const hang = (signal: AbortSignal) => {
+    reached();
+    return new Promise<never>((_, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason));
+    });
+  };
+  const handler = memory.handler;
+  memory.handler = (request) =>
+    new URL(request.url).pathname.endsWith(`/${endpoint}`)
+      ? hang(request.signal)
+      : handler(request);
+  client.transport = {
+    connect: (url, options) =>
+      endpoint === "connect"
+        ? hang(options.signal!)
+        : memory.connect(url, options),
+  };
+  return { client, memory, hanging };
+}
+
+for (const endpoint of ["negotiate", "connect", "start"] as const) {
+  Deno.test(`aborting start during ${endpoint} rejects without reconnecting`, async () => {
+    const { client, memory, hanging } = createHangingClient(endpoint);
+    const events: string[] = [];
+    client.attach((event) => events.push(event[0]));
+    const controller = new AbortController();
+    const started = client.start(1.5, controller.signal);
+    await hanging;
+    controller.abort("Request scope ended");
+
+    const error = await assertRejects(() => started, AbortError);
+    assertEquals(error.reason, "Request scope ended");
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assertEquals(events, []);
+    assertEquals(client._reconnectTimer, undefined);
+    assertEquals(client.connection.state, ConnectionState.disconnected);
+    if (endpoint === "start") {
+      assertEquals(memory.connections[0].socket.readyState, 3);
+    }
+    client.end();
+  });
+}
+
+Deno.test("aborting a call rejects it and removes its callback", async () => {
+  const { client, memory } = createClient();
+  client.start();
+  const { socket } = await memory.accept();
+  await client.waitFor((event) =>
+    event[0] === "connected" ? [undefined] : null
+  );
+  const hub = client.connection.hub;
+
+  const controller = new AbortController();
+  const result = hub.call("chat", "send", ["hello"], {
+    signal: controller.signal,
+  });
+  await socket.nextMessage();
+  controller.abort("Request scope ended");
+  const error = await assertRejects(() => result, AbortError);
+  assertEquals(error.reason, "Request scope ended");
+  assertEquals(hub.callbacks, {});
+  assertEquals(hub._pending, {});
+
+  // A result arriving after the abort is ignored.
+  socket.send(JSON.stringify({ I: "0", R: "hi" }));
+  await new Promise((resolve) => setTimeout(resolve));
+  assertEquals(client.connection.state, ConnectionState.connected);
+  client.end();
+});
+
+/**
+ * Start a fake server and a client connected to it.
+ */
+async function connect(
+  serverOptions: FakeServerOptions,
+  clientOptions: ClientOptions = {},
+) {
+  const server = new FakeServer(serverOptions);
+  const client = new Client<ChatMessage>(server.url, ["chat"], {
+    transports: ["webSockets"],
+    reconnectDelayTime: 10,
+    ...clientOptions,
+  });
+  const connected = nextEvent(client, "connected");
+  await client.start();
+  await connected;
+  return { server, client };
+}
+
+/**
+ * Wait for the next event of a client.
+ */
+function nextEvent(
+  client: Client<ChatMessage>,
+  name: "connected" | "reconnecting" | "error",
+): Promise<unknown> {
+  return client.waitFor((event) => event[0] === name ? [event[1]] : null);
+}
+
+/**
+ * End the client, then stop the server once it received the abort request.
+ */
+async function stop(client: Client<ChatMessage>, server: FakeServer) {
+  const aborted = server.nextRequest("abort");
+  client.end();
+  await aborted;
+  await server.close();
+}
+
+Deno.test("calls resolve with results and reject with hub errors", async () => {
+  const { server, client } = await connect({
+    hubs: {
+      chat: {
+        send: ({ args }) => `echo ${args[0]}`,
+        fail: () => {
+          throw new FakeHubError("Not allowed", { reason: "muted" });
+        },
+      },
+    },
+  });
+  const hub = client.connection.hub;
+
+  assertEquals(await hub.call("chat", "send", ["hi"]), "echo hi");
+  const error = await assertRejects(
+    () => hub.call("chat", "fail", []),
+    HubInvocationError,
+    "Not allowed",
+  );
+  assertEquals((error as HubInvocationError).isHubException, true);
+  assertEquals((error as HubInvocationError).errorData, { reason: "muted" });
+  await stop(client, server);
+});
+
+Deno.test("delayed results report progress until they resolve", async () => {
+  const { server, client } = await connect({
+    hubs: {
+      chat: {
+        send: async (invocation) => {
+          invocation.progress(50);
+          await invocation.delay(20);
+          return "done";
+        },
+      },
+    },
+  });
+  const progress: unknown[] = [];
+
+  const result = await client.connection.hub.call("chat", "send", ["hi"], {
+    onProgress: (value) => progress.push(value),
+  });
+  assertEquals([result, progress], ["done", [50]]);
+  await stop(client, server);
+});
+
+Deno.test("progress extends the call timeout without a progress handler", async () => {
+  const { server, client } = await connect({
+    hubs: {
+      chat: {
+        send: async (invocation) => {
+          for (let i = 0; i < 3; i++) {
+            await invocation.delay(30);
+            invocation.progress(i);
+          }
+          await invocation.delay(30);
+          return "done";
+        },
+      },
+    },
+  }, { callTimeout: 50 });
+
+  assertEquals(
+    await client.connection.hub.call("chat", "send", ["hi"]),
+    "done",
+  );
+  await stop(client, server);
+});
+
+Deno.test("calls time out when the server doesn't respond", async () => {
+  const { server, client } = await connect({
+    hubs: { chat: { send: (invocation) => invocation.noResponse() } },
+  }, { callTimeout: 50 });
+
+  await assertRejects(
+    () => client.connection.hub.call("chat", "send", ["hi"]),
+    InvocationTimeoutError,
+  );
+  await stop(client, server);
+});
+
+Deno.test("dropped sockets reconnect and resume the connection", async () => {
+  const { server, client } = await connect({
+    hubs: { chat: { send: ({ args }) => args[0] } },
+  });
+  server.send("chat", "message", "hello");
+  await new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+
+  const reconnecting = nextEvent(client, "reconnecting");
+  const reconnected = server.nextRequest("reconnect");
+  server.dropConnections();
+  assertEquals((await reconnecting as { attempt: number }).attempt, 1);
+  const request = await reconnected;
+  await nextEvent(client, "connected");
+
+  assertEquals(request.url.searchParams.get("messageId"), "1");
+  assertEquals(
+    server.requests.map(({ endpoint }) => endpoint),
+    ["negotiate", "connect", "start", "reconnect"],
+  );
+  assertEquals(await client.connection.hub.call("chat", "send", ["hi"]), "hi");
+  await stop(client, server);
+});
+
+Deno.test("failed resumes are retried over the same transport", async () => {
+  const { server, client } = await connect({}, {
+    transports: ["webSockets", "serverSentEvents", "longPolling"],
+  });
+  server.fail("reconnect", 500);
+
+  server.dropConnections();
+  await nextEvent(client, "error");
+  await nextEvent(client, "connected");
+
+  assertEquals(
+    server.requests.map(({ endpoint, status }) => `${endpoint}${status}`),
+    [
+      "negotiate200",
+      "connect101",
+      "start200",
+      "reconnect500",
+      // The connection is restarted once it can't be resumed.
+      "negotiate200",
+      "connect101",
+      "start200",
+    ],
+  );
+  assertEquals(client._transport, "webSockets");
+  await stop(client, server);
+});
+
+Deno.test("calls made while reconnecting are sent once connected", async () => {
+  const { server, client } = await connect({
+    hubs: { chat: { send: ({ args }) => args[0] } },
+  }, { outboundQueue: {} });
+
+  const reconnecting = nextEvent(client, "reconnecting");
+  server.dropConnections();
+  await reconnecting;
+  const first = client.connection.hub.call("chat", "send", ["first"]);
+  const second = client.connection.hub.call("chat", "send", ["second"]);
+  assertEquals(client.outboundQueue!.invocationIds, [0, 1]);
+  const invocations: unknown[] = [];
+  server.attach((event) => {
+    if (event[0] === "invocation") invocations.push(event[1].args);
+  });
+  await nextEvent(client, "connected");
+
+  assertEquals(await first, "first");
+  assertEquals(await second, "second");
+  assertEquals(invocations, [["first"], ["second"]]);
+  assertEquals(client.outboundQueue!.size, 0);
+  await stop(client, server);
+});
+
+Deno.test("missing keep-alives are reported as a lost connection", async () => {
+  const { server, client } = await connect({
+    keepAliveTimeout: 0.1,
+    keepAliveInterval: false,
+  });
+
+  const reconnected = server.nextRequest("reconnect");
+  const error = await nextEvent(client, "error") as { code: ErrorCode };
+  assertEquals(error.code, ErrorCode.connectLost);
+  await reconnected;
+  await nextEvent(client, "connected");
+  await stop(client, server);
+});
+
+Deno.test("401 responses refresh the access token and retry", async () => {
+  let tokens = 0;
+  const { server, client } = await connect({ failures: { start: [401] } }, {
+    accessTokenFactory: () => `token-${++tokens}`,
+  });
+
+  const starts = server.requests.filter(({ endpoint }) => endpoint === "start");
+  assertEquals(
+    starts.map(({ status, headers }) => [status, headers.get("Authorization")]),
+    [[401, "Bearer token-3"], [200, "Bearer token-4"]],
+  );
+  await stop(client, server);
+});
+
+Deno.test("401 responses to the WebSocket upgrade refresh the access token and retry", async () => {
+  let tokens = 0;
+  const { server, client } = await connect({ failures: { connect: [401] } }, {
+    accessTokenFactory: () => `token-${++tokens}`,
+  });
+
+  const connects = server.requests.filter(({ endpoint }) =>
+    endpoint === "connect"
+  );
+  assertEquals(
+    connects.map(({ status, headers }) => [
+      status,
+      headers.get("Authorization"),
+    ]),
+    [[401, "Bearer token-2"], [101, "Bearer token-3"]],
+  );
+  await stop(client, server);
+});
+
+Deno.test("HTTP transports send the refreshed access token", async () => {
+  let tokens = 0;
+  let starts = 0;
+  const memory = new MemoryTransport((request) => {
+    const { pathname } = new URL(request.url);
+    switch (pathname) {
+      case "/signalr/negotiate":
+        return Response.json({ ConnectionToken: "token", ConnectionId: "id" });
+      case "/signalr/start":
+        if (!starts++) return new Response(null, { status: 401 });
+        return Response.json({ Response: "started" });
+      case "/signalr/poll":
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", reject);
+        });
+      case "/signalr/send":
+        return Response.json({ I: "0", R: "sent" });
+      default:
+        return new Response(null);
+    }
+  });
+  const client = new Client<ChatMessage>("http://localhost/signalr", ["chat"], {
+    http: memory,
+    transports: ["longPolling"],
+    accessTokenFactory: () => `token-${++tokens}`,
+  });
+  await client.start();
+  await client.connection.hub.call("chat", "send", ["hi"]);
+
+  const authorization = (path: string) =>
+    memory.requests
+      .filter(({ url }) => new URL(url).pathname === `/signalr/${path}`)
+      .map(({ headers }) => headers.get("Authorization"));
+  assertEquals(authorization("start"), ["Bearer token-3", "Bearer token-4"]);
+  assertEquals(authorization("send"), ["Bearer token-4"]);
+  client.end();
+});
+
+Deno.test("401 responses to negotiate report unauthorized", async () => {
+  const server = new FakeServer({ failures: { negotiate: [401] } });
+  const client = new Client<ChatMessage>(server.url, ["chat"]);
+  const error = nextEvent(client, "error");
+  await client.start();
+
+  assertEquals(
+    (await error as { code: ErrorCode }).code,
+    ErrorCode.unauthorized,
+  );
+  assertEquals(server.requests.map(({ endpoint }) => endpoint), ["negotiate"]);
+  await server.close();
+});
+
+Deno.test("end closes the HTTP clients after the abort request", async () => {
+  const { server, client } = await connect({}, { tls: {} });
+  const aborted = server.nextRequest("abort");
+  client.end();
+  await aborted;
+  // Let the abort response settle.
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assertEquals(client._httpClients, {});
+  await server.close();
+});
+
+Deno.test("the fake server is only exported from testing.ts", async () => {
+  const testing = await import("../../testing.ts");
+  assertEquals("FakeServer" in testing, true);
+  assertEquals("FakeServer" in SignalR, false);
+});
@@ -0,0 +1,686 @@
+import { AbortError } from "./Errors.ts";
+import {
+  BaseClient,
+  type ClientOptions,
+  ConnectionState,
+  ErrorCode,
+  SignalRHubError,
+} from "./Client.ts";
+import {
+  type CloseMessage,
+  type HubProtocol,
+  type HubProtocolMessage,
+  MessageType,
+} from "../protocols/HubProtocol.ts";
+import { JsonHubProtocol } from "../protocols/JsonHubProtocol.ts";
+import { HandshakeProtocol } from "../protocols/HandshakeProtocol.ts";
+import {
+  isStreamArgument,
+  readStreamArgument,
+  type StreamArgument,
+} from "../utils/streamArguments.ts";
+
+/**
+ * The client options to include as additional options for ASP.NET Core.
+ */
+export interface CoreClientOptions extends Omit<ClientOptions, "transports"> {
+  /**
+   * The interval to send keep-alive pings at in milliseconds.
+   */
+  keepAliveInterval?: number;
+  /**
+   * The time without any message from the server before the connection is
+   * considered lost in milliseconds.
+   */
+  serverTimeout?: number;
+  /**
+   * The hub protocol, defaults to the JSON hub protocol.
+   */
+  protocol?: HubProtocol;
+}
+
+/**
+ * ASP.NET Core SignalR negotiation response.
+ */
+export interface CoreNegotiateResponse {
+  /**
+   * The connection ID.
+   */
+  connectionId?: string;
+  /**
+   * The connection token, sent instead of the connection ID from version 1.
+   */
+  connectionToken?: string;
+  /**
+   * The negotiate version.
+   */
+  negotiateVersion?: number;
+  /**
+   * The transports offered by the server.
+   */
+  availableTransports?: { transport: string; transferFormats: string[] }[];
+  /**
+   * The URL to redirect to.
+   */
+  url?: string;
+  /**
+   * The access token to use with the redirect URL.
+   */
+  accessToken?: string;
+  /**
+   * The negotiation error.
+   */
+  error?: string;
+}
+
+/**
+ * A SignalR client for Deno which supports ASP.net Core
+ * @extends {BaseClient}
+ */
+export class CoreClient<
+  HubMessage extends [string, string, unknown[], unknown[]] = [
+    string,
+    string,
+    unknown[],
+    unknown[],
+  ],
+> extends BaseClient<HubMessage> {
+  /**
+   * The interval to send keep-alive pings at in milliseconds.
+   */
+  public keepAliveInterval = 15000;
+
+  /**
+   * The time without any message from the server before the connection is
+   * considered lost in milliseconds.
+   */
+  public serverTimeout = 30000;
+
+  /**
+   * The hub protocol.
+   */
+  public protocol: HubProtocol = new JsonHubProtocol();
+
+  /**
+   * The name the hub is bound with.
+   */
+  public _hubName: HubMessage[0];
+
+  /**
+   * The URL of the hub after negotiation redirects.
+   */
+  public _baseUrl: string;
+
+  /**
+   * The access token from a negotiation redirect, used instead of the factory.
+   */
+  public _redirectAccessToken?: string;
+
+  /**
+   * Construct a new ASP.net Core SignalR Client.
+   * @param url - URL of the hub to connect to.
+   * @param hub - Name to bind the hub's methods with.
+   * @param options - Other client options.
+   */
+  constructor(url: string, hub: HubMessage[0], options?: CoreClientOptions) {
+    super(url, options);
+    this._baseUrl = url;
+    this._hubName = hub;
+    if (options) {
+      if (options.keepAliveInterval) {
+        this.keepAliveInterval = options.keepAliveInterval;
+      }
+      if (options.serverTimeout) this.serverTimeout = options.serverTimeout;
+      if (options.protocol) this.protocol = options.protocol;
+    }
+  }
+
+  /**
+   * Process a frame received from server.
+   * @param message - The websocket message.
+   */
+  public _receiveMessage(message: MessageEvent): void {
+    this._markLastMessage();
+    if (message.type !== "message") return;
+    const frame = message.data instanceof ArrayBuffer
+      ? new Uint8Array(message.data)
+      : message.data;
+    for (const data of this.protocol.parseMessages(frame)) {
+      this._handleMessage(data);
+    }
+  }
+
+  /**
+   * Handle a hub message received from server.
+   * @param message - The hub message.
+   */
+  public _handleMessage(message: HubProtocolMessage): void {
+    switch (message.type) {
+      case MessageType.invocation:
+        this.connection.hub._dispatch(
+          this._hubName,
+          message.target,
+          message.arguments,
+        );
+        break;
+      case MessageType.streamItem:
+        this.connection.hub._handleStreamItem(
+          Number(message.invocationId),
+          message.item,
+        );
+        break;
+      case MessageType.completion:
+        if (Number(message.invocationId) in this.connection.hub.streams) {
+          this.connection.hub._handleStreamCompletion(
+            Number(message.invocationId),
+            message.error,
+          );
+        } else {
+          this.connection.hub._handleCallback(Number(message.invocationId), {
+            I: message.invocationId,
+            R: message.result,
+            E: message.error,
+          });
+        }
+        break;
+      case MessageType.close:
+        this._handleClose(message);
+        break;
+      default:
+    }
+  }
+
+  /**
+   * Handle the server closing the connection.
+   * @param message - The close message.
+   */
+  public _handleClose(message: CloseMessage): void {
+    this._clearBeatTimer();
+    this.connection.state = ConnectionState.disconnected;
+    this.post(["disconnected", { reason: message.error ?? "closed" }]);
+    this._close();
+    if (message.allowReconnect) this._reconnect();
+    else this.outboundQueue?.clear("Connection closed by the server");
+  }
+
+  /**
+   * Send a hub message to the server.
+   * @param message - The hub message.
+   */
+  public _send(message: HubProtocolMessage): void {
+    if (this._websocket && (this._websocket.readyState === 1)) {
+      this._websocket.send(this.protocol.writeMessage(message));
+    } else {
+      throw new TypeError(
+        "WebSocket readyState must be OPEN to send messages.",
+      );
+    }
+  }
+
+  /**
+   * Send a Hub message to the server.
+   * @param _hub - The message hub, the connection is bound to a single hub.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  public _sendMessage<
+    Hub extends HubMessage[0],
+    Method extends Extract<HubMessage, [Hub, unknown, unknown, unknown]>[1],
+  >(
+    _hub: HubMessage[0],
+    method: Method,
+    args: Extract<HubMessage, [Hub, Method, unknown, unknown]>[3],
+  ): void {
+    this._sendInvocation(MessageType.invocation, method, args);
+  }
+
+  /**
+   * Send a streaming Hub message to the server.
+   * @param _hub - The message hub, the connection is bound to a single hub.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  public _sendStreamInvocation<
+    Hub extends HubMessage[0],
+    Method extends Extract<HubMessage, [Hub, unknown, unknown, unknown]>[1],
+  >(
+    _hub: HubMessage[0],
+    method: Method,
+    args: Extract<HubMessage, [Hub, Method, unknown, unknown]>[3],
+  ): void {
+    this._sendInvocation(MessageType.streamInvocation, method, args);
+  }
+
+  /**
+   * Send an invocation, streaming its stream arguments after it.
+   * @param type - The invocation message type.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  public _sendInvocation(
+    type: MessageType.invocation | MessageType.streamInvocation,
+    method: string,
+    args: unknown[],
+  ): void {
+    const id = this._invocationId;
+    // Non-blocking invocations are sent without an ID, as no result is
+    // expected, but still take one to keep their place in the outbound queue.
+    const blocking = type === MessageType.streamInvocation ||
+      id in this.connection.hub.callbacks;
+    this._invocationId++;
+
+    const params: unknown[] = [];
+    const streams: [string, StreamArgument][] = [];
+    for (const arg of args) {
+      if (isStreamArgument(arg)) {
+        streams.push([String(this._invocationId), arg]);
+        this._invocationId++;
+      } else params.push(arg);
+    }
+
+    const invocation = {
+      target: method,
+      arguments: params,
+      ...(streams.length
+        ? { streamIds: streams.map(([streamId]) => streamId) }
+        : {}),
+    };
+    const send = () => {
+      this._send(
+        blocking
+          ? { type, invocationId: String(id), ...invocation }
+          : { type: MessageType.invocation, ...invocation },
+      );
+      for (const [streamId, stream] of streams) {
+        this._sendStream(streamId, stream).then();
+      }
+    };
+    if (this.outboundQueue && this._isReconnecting()) {
+      this._queueInvocation(id, send);
+    } else send();
+  }
+
+  /**
+   * Send the items of a stream argument, followed by its completion.
+   * @param streamId - The stream ID.
+   * @param stream - The stream argument.
+   */
+  public async _sendStream(
+    streamId: string,
+    stream: StreamArgument,
+  ): Promise<void> {
+    let error: string | undefined;
+    try {
+      for await (const item of readStreamArgument(stream)) {
+        this._send({
+          type: MessageType.streamItem,
+          invocationId: streamId,
+          item,
+        });
+      }
+    } catch (streamError) {
+      error = streamError instanceof Error
+        ? streamError.message
+        : String(streamError);
+    }
+
+    try {
+      this._send({
+        type: MessageType.completion,
+        invocationId: streamId,
+        error,
+      });
+    } catch {
+      // The stream ends with the connection anyway.
+    }
+  }
+
+  /**
+   * Cancel a streaming invocation.
+   * @param invocationId - The invocation ID.
+   */
+  public _cancelInvocation(invocationId: number): void {
+    this._send({
+      type: MessageType.cancelInvocation,
+      invocationId: String(invocationId),
+    });
+  }
+
+  /**
+   * Get the headers for a request, with the redirect access token or the
+   * access token if there is one.
+   */
+  public override _headers(): Record<string, string> {
+    const accessToken = this._redirectAccessToken ?? this._accessToken;
+    return accessToken
+      ? { ...this.headers, Authorization: `Bearer ${accessToken}` }
+      : { ...this.headers };
+  }
+
+  /**
+   * Whether an access token rejected by the server can be refreshed, which
+   * the access token from a negotiation redirect can't.
+   */
+  public override _canRefreshAccessToken(): boolean {
+    return !this._redirectAccessToken && super._canRefreshAccessToken();
+  }
+
+  /**
+   * Negotiate with the endpoint for a connection token, following redirects.
+   * @param signal - Signal which cancels the requests.
+   */
+  public async _negotiate(
+    signal?: AbortSignal,
+  ): Promise<CoreNegotiateResponse> {
+    await this._refreshAccessToken();
+    for (let redirects = 0; redirects < 100; redirects++) {
+      const query = new URLSearchParams({
+        ...this.query,
+        negotiateVersion: "1",
+      });
+      const url = new URL(`${this._baseUrl}/negotiate`);
+      url.search = query.toString();
+
+      let data: Response;
+      try {
+        const options: RequestInit = { method: "POST", signal };
+        if (this.includeCredentials) options.credentials = "include";
+        data = await this._fetch(url.toString(), options);
+      } catch (error) {
+        if (signal?.aborted) throw new AbortError(signal.reason);
+        throw new SignalRHubError(
+          ErrorCode.negotiateError,
+          ErrorCode.negotiateError,
+          error,
+        );
+      }
+
+      if (
+        data.status === 302 || data.status === 401 || data.status === 403
+      ) {
+        throw new SignalRHubError(
+          ErrorCode.unauthorized,
+          ErrorCode.unauthorized,
+          null,
+        );
+      } else if (!data.ok) {
+        throw new SignalRHubError(
+          ErrorCode.negotiateError,
+          ErrorCode.negotiateError,
+          data.status,
+        );
+      }
+
+      const negotiateResponse = (await data.json()) as CoreNegotiateResponse;
+      if (negotiateResponse.error) {
+        throw new SignalRHubError(
+          ErrorCode.negotiateError,
+          ErrorCode.negotiateError,
+          negotiateResponse.error,
+        );
+      }
+      if (!negotiateResponse.url) return negotiateResponse;
+      this._baseUrl = negotiateResponse.url;
+      if (negotiateResponse.accessToken) {
+        this._redirectAccessToken = negotiateResponse.accessToken;
+      }
+    }
+
+    throw new SignalRHubError(
+      ErrorCode.negotiateError,
+      ErrorCode.negotiateError,
+      "Negotiate redirection limit exceeded",
+    );
+  }
+
+  /**
+   * Connect to the websocket and complete the protocol handshake.
+   * @param signal - Signal which cancels connecting and the handshake.
+   */
+  public async _connect(signal?: AbortSignal): Promise<void> {
+    await this._refreshAccessToken();
+    const url = new URL(this._baseUrl.replace(/^http/, "ws"));
+    const query = new URLSearchParams({
+      ...this.query,
+      id: String(this.connection.token),
+    });
+    url.search = query.toString();
+
+    const webSocket = await this._openAuthorized(
+      () =>
+        this.transport.connect(url.toString(), {
+          headers: this.headers,
+          accessToken: this._redirectAccessToken ?? this._accessToken,
+          cookieJar: this.cookieJar,
+          proxy: this.proxy,
+          tls: this.tls,
+          compression: this.compression,
+          signal,
+        }),
+      signal,
+    );
+    if ("binaryType" in webSocket) webSocket.binaryType = "arraybuffer";
+
+    let handshake:
+      | { resolve: () => void; reject: (error: unknown) => void }
+      | undefined;
+    const handshakeComplete = new Promise<void>((resolve, reject) => {
+      handshake = { resolve, reject };
+    });
+
+    webSocket.onopen = () => {
+      webSocket.send(HandshakeProtocol.writeHandshakeRequest(this.protocol));
+    };
+    webSocket.onmessage = (message: MessageEvent) => {
+      if (!handshake) return this._receiveMessage(message);
+      const { resolve, reject } = handshake;
+      handshake = undefined;
+      try {
+        const [response, remaining] = HandshakeProtocol
+          .parseHandshakeResponse(
+            message.data instanceof ArrayBuffer
+              ? new Uint8Array(message.data)
+              : message.data,
+          );
+        if (response.error) {
+          throw new SignalRHubError(
+            ErrorCode.handshakeError,
+            ErrorCode.handshakeError,
+            response.error,
+          );
+        }
+        resolve();
+        this._markLastMessage();
+        if (remaining) {
+          this._receiveMessage(
+            new MessageEvent("message", { data: remaining }),
+          );
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+    webSocket.onerror = (event: Event | ErrorEvent) => {
+      if (handshake) {
+        handshake.reject(
+          new SignalRHubError(
+            ErrorCode.connectError,
+            ErrorCode.connectError,
+            "error" in event ? event.error : null,
+          ),
+        );
+        handshake = undefined;
+      } else if ("error" in event) {
+        this._error(ErrorCode.socketError, event.error);
+      }
+    };
+    webSocket.onclose = (event: CloseEvent) => {
+      if (handshake) {
+        handshake.reject(
+          new SignalRHubError(
+            ErrorCode.connectError,
+            ErrorCode.connectError,
+            null,
+          ),
+        );
+        handshake = undefined;
+        return;
+      }
+      this.connection.state = ConnectionState.disconnected;
+      this.post(["disconnected", {
+        reason: "failed",
+        code: event.code,
+        closeReason: event.reason,
+        wasClean: event.wasClean,
+      }]);
+      this.connection.hub._rejectPending(
+        undefined,
+        this.outboundQueue?.invocationIds,
+      );
+      this._reconnect();
+    };
+    this._websocket = webSocket;
+
+    const onAbort = () => {
+      handshake?.reject(new AbortError(signal?.reason));
+      handshake = undefined;
+    };
+    signal?.addEventListener("abort", onAbort);
+    try {
+      await handshakeComplete;
+    } catch (error) {
+      this._close();
+      if (signal?.aborted) throw new AbortError(signal.reason);
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Attempt a reconnection, negotiating a new connection.
+   */
+  public _reconnect(): void {
+    this._scheduleReconnect(() => this.start().then());
+  }
+
+  /**
+   * Send a keep-alive ping and check the server timeout.
+   */
+  public _beat(): void {
+    if (this.connection.state === ConnectionState.connected) {
+      const timeElapsed = new Date().getTime() - this.connection.lastMessageAt;
+      if (timeElapsed > this.serverTimeout) {
+        this.connection.state = ConnectionState.disconnected;
+        this._error(ErrorCode.connectLost).then();
+      } else {
+        try {
+          this._send({ type: MessageType.ping });
+        } catch {
+          // The close event will handle the lost connection.
+        }
+        this._beatTimer = setTimeout(() => {
+          this._beat();
+        }, Math.min(this.keepAliveInterval, this.serverTimeout / 2));
+      }
+    }
+  }
+
+  /**
+   * Emit an error and attempt a reconnect if the connection failed or was lost.
+   * @param code - SignalRError code to emit.
+   * @param extra - Extra data to emit
+   */
+  public async _error(code: ErrorCode, extra?: unknown): Promise<void> {
+    this._lastError = {
+      code: code,
+      message: extra,
+    };
+    this.post(["error", this._lastError]);
+    if (
+      code === ErrorCode.negotiateError || code === ErrorCode.connectError ||
+      code === ErrorCode.connectLost
+    ) {
+      await this._reconnect();
+    }
+  }
+
+  /**
+   * Start the SignalR connection.
+   * Rejects with an `AbortError` if the signal aborts before the connection
+   * is established.
+   * @param signal - Signal which cancels negotiating and connecting.
+   */
+  public async start(signal?: AbortSignal): Promise<void> {
+    if (!this.url) return this._error(ErrorCode.invalidURL);
+    if (!(this.url.startsWith("http:") || this.url.startsWith("https:"))) {
+      return await this._error(ErrorCode.invalidProtocol);
+    }
+
+    try {
+      this._baseUrl = this.url;
+      this._redirectAccessToken = undefined;
+      if (signal?.aborted) throw new AbortError(signal.reason);
+      const negotiateResponse = await this._negotiate(signal);
+      this.connection.id = negotiateResponse.connectionId;
+      this.connection.token = (negotiateResponse.negotiateVersion ?? 0) >= 1
+        ? negotiateResponse.connectionToken
+        : negotiateResponse.connectionId;
+      if (
+        negotiateResponse.availableTransports &&
+        !negotiateResponse.availableTransports.some((transport) =>
+          transport.transport === "WebSockets" &&
+          transport.transferFormats.includes(this.protocol.transferFormat)
+        )
+      ) {
+        throw new SignalRHubError(
+          ErrorCode.unsupportedWebsocket,
+          ErrorCode.unsupportedWebsocket,
+          null,
+        );
+      }
+
+      if (!this.outboundQueue?.size) this._invocationId = 0;
+      await this._connect(signal);
+      this._reconnectCount = 0;
+      this._reconnectStartedAt = undefined;
+      this._lastError = undefined;
+      this.connection.state = ConnectionState.connected;
+      this.post(["connected", undefined]);
+      this._markLastMessage();
+      this._beat();
+      try {
+        this.outboundQueue?.flush();
+      } catch {
+        // The close event will handle the lost connection.
+      }
+    } catch (error) {
+      this.connection.state = ConnectionState.disconnected;
+      if (error instanceof AbortError) throw error;
+      const hubError = error instanceof SignalRHubError
+        ? error
+        : new SignalRHubError(
+          ErrorCode.connectError,
+          ErrorCode.connectError,
+          error,
+        );
+      await this._error(hubError.code, hubError.message);
+    }
+  }
+
+  /**
+   * End the SignalR connection, cancelling a pending reconnect and rejecting
+   * the pending and queued invocations.
+   */
+  public end() {
+    if (this._websocket || this._isReconnecting()) {
+      this.post(["disconnected", { reason: "end" }]);
+    }
+    this._closeHttpClients();
+    this.outboundQueue?.clear("Connection ended");
+    this._clearReconnectTimer();
+    this._clearBeatTimer();
+    this._close();
+    this.connection.state = ConnectionState.disconnected;
+  }
+}
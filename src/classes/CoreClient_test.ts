@@ -0,0 +1,506 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { CoreClient, type CoreClientOptions } from "./CoreClient.ts";
+import { ConnectionState, ErrorCode } from "./Client.ts";
+import {
+  AbortError,
+  ConnectionClosedError,
+  HubInvocationError,
+} from "./Errors.ts";
+import {
+  type HubProtocolMessage,
+  MessageType,
+} from "../protocols/HubProtocol.ts";
+import { TextMessageFormat } from "../protocols/TextMessageFormat.ts";
+import { HandshakeError } from "../custom_socket/handshake.ts";
+import {
+  type MemorySocket,
+  MemoryTransport,
+} from "../transports/MemoryTransport.ts";
+
+/**
+ * The messages of the chat hub: [hub, method, received args, sent args].
+ */
+type ChatMessage =
+  | ["chat", "send", unknown[], [string]]
+  | ["chat", "message", [string], unknown[]]
+  | ["chat", "counter", unknown[], [number]]
+  | [
+    "chat",
+    "upload",
+    unknown[],
+    [AsyncIterable<number> | ReadableStream<number>],
+  ];
+
+const negotiateResponse = {
+  negotiateVersion: 1,
+  connectionId: "id",
+  connectionToken: "token",
+  availableTransports: [
+    { transport: "WebSockets", transferFormats: ["Text", "Binary"] },
+  ],
+};
+
+/**
+ * Create a client with a memory transport answering negotiate requests.
+ */
+function createClient(options: CoreClientOptions = {}) {
+  const memory = new MemoryTransport(() => Response.json(negotiateResponse));
+  const client = new CoreClient<ChatMessage>("http://localhost/chat", "chat", {
+    transport: memory,
+    http: memory,
+    ...options,
+  });
+  return { client, memory };
+}
+
+/**
+ * Write hub messages as a JSON frame.
+ */
+function write(...messages: object[]): string {
+  return messages.map((message) =>
+    TextMessageFormat.write(JSON.stringify(message))
+  )
+    .join("");
+}
+
+/**
+ * Wait for the next hub message sent by the client.
+ */
+async function nextMessage(socket: MemorySocket): Promise<HubProtocolMessage> {
+  const [message] = TextMessageFormat.parse(await socket.nextMessage());
+  return JSON.parse(message);
+}
+
+/**
+ * Start the client and complete the handshake as the server.
+ * @returns The server end of the connection.
+ */
+async function connect(
+  client: CoreClient<ChatMessage>,
+  memory: MemoryTransport,
+) {
+  const started = client.start();
+  const { socket } = await memory.accept();
+  const handshake = await socket.nextMessage();
+  socket.send(write({}));
+  await started;
+  return { socket, handshake };
+}
+
+Deno.test("start follows negotiate redirects with their access token", async () => {
+  const memory = new MemoryTransport((request) =>
+    new URL(request.url).hostname === "localhost"
+      ? Response.json({
+        url: "http://example.com/chat",
+        accessToken: "redirected",
+      })
+      : Response.json(negotiateResponse)
+  );
+  const client = new CoreClient<ChatMessage>("http://localhost/chat", "chat", {
+    transport: memory,
+    http: memory,
+    accessTokenFactory: () => "factory",
+  });
+  const { socket, handshake } = await connect(client, memory);
+
+  assertEquals(
+    memory.requests.map((request) => [
+      request.url,
+      request.headers.get("Authorization"),
+    ]),
+    [
+      ["http://localhost/chat/negotiate?negotiateVersion=1", "Bearer factory"],
+      [
+        "http://example.com/chat/negotiate?negotiateVersion=1",
+        "Bearer redirected",
+      ],
+    ],
+  );
+  const { url, options } = memory.connections[0];
+  assertEquals(url.origin, "ws://example.com");
+  assertEquals(url.searchParams.get("id"), "token");
+  assertEquals(url.searchParams.has("access_token"), false);
+  assertEquals(options.accessToken, "redirected");
+  assertEquals(handshake, write({ protocol: "json", version: 1 }));
+  assertEquals(client.connection.state, ConnectionState.connected);
+  socket.close();
+  client.end();
+});
+
+Deno.test("401 responses to the WebSocket upgrade refresh the access token and retry", async () => {
+  let tokens = 0;
+  const { client, memory } = createClient({
+    accessTokenFactory: () => `token-${++tokens}`,
+  });
+  const accessTokens: (string | undefined)[] = [];
+  client.transport = {
+    connect(url, options) {
+      accessTokens.push(options.accessToken);
+      if (accessTokens.length === 1) {
+        return Promise.reject(new HandshakeError(401, "Unauthorized"));
+      }
+      return memory.connect(url, options);
+    },
+  };
+  const { socket } = await connect(client, memory);
+
+  assertEquals(accessTokens, ["token-2", "token-3"]);
+  assertEquals(client.connection.state, ConnectionState.connected);
+  socket.close();
+  client.end();
+});
+
+Deno.test("a handshake error fails the connection", async () => {
+  const { client, memory } = createClient();
+  const error = client.waitFor((event) =>
+    event[0] === "error" ? [event[1]] : null
+  );
+  const started = client.start();
+  const { socket } = await memory.accept();
+  await socket.nextMessage();
+  socket.send(write({ error: "Unsupported protocol" }));
+  await started;
+
+  assertEquals(await error, {
+    code: ErrorCode.handshakeError,
+    message: ErrorCode.handshakeError,
+  });
+  assertEquals(socket.readyState, 3);
+  client.end();
+});
+
+Deno.test("calls resolve from completion messages", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const hub = client.connection.hub;
+
+  const result = hub.call("chat", "send", ["hi"]);
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.invocation,
+    invocationId: "0",
+    target: "send",
+    arguments: ["hi"],
+  });
+  const failed = hub.call("chat", "send", ["again"]);
+  await nextMessage(socket);
+  socket.send(write(
+    { type: MessageType.completion, invocationId: "0", result: "sent" },
+    { type: MessageType.completion, invocationId: "1", error: "Muted" },
+  ));
+
+  assertEquals(await result, "sent");
+  await assertRejects(() => failed, HubInvocationError, "Muted");
+  client.end();
+});
+
+Deno.test("invocations without a result are sent without an ID", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const hub = client.connection.hub;
+
+  hub.invoke("chat", "send", ["hi"]);
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.invocation,
+    target: "send",
+    arguments: ["hi"],
+  });
+  const result = hub.call("chat", "send", ["again"]);
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.invocation,
+    invocationId: "1",
+    target: "send",
+    arguments: ["again"],
+  });
+  socket.send(
+    write({ type: MessageType.completion, invocationId: "1", result: "sent" }),
+  );
+  assertEquals(await result, "sent");
+  client.end();
+});
+
+Deno.test("aborting start during negotiate rejects without reconnecting", async () => {
+  let reached!: () => void;
+  const negotiating = new Promise<void>((resolve) => reached = resolve);
+  const { client } = createClient({ reconnectDelayTime: 10 });
+  client.http = {
+    fetch: (_url, { signal }) => {
+      reached();
+      return new Promise<never>((_, reject) => {
+        signal!.addEventListener("abort", () => reject(signal!.reason));
+      });
+    },
+  };
+  const events: string[] = [];
+  client.attach((event) => events.push(event[0]));
+  const controller = new AbortController();
+  const started = client.start(controller.signal);
+  await negotiating;
+  controller.abort("Request scope ended");
+
+  const error = await assertRejects(() => started, AbortError);
+  assertEquals(error.reason, "Request scope ended");
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals(events, []);
+  assertEquals(client._reconnectTimer, undefined);
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+  client.end();
+});
+
+Deno.test("aborting start during the handshake closes the connection", async () => {
+  const { client, memory } = createClient({ reconnectDelayTime: 10 });
+  const events: string[] = [];
+  client.attach((event) => events.push(event[0]));
+  const controller = new AbortController();
+  const started = client.start(controller.signal);
+  const { socket } = await memory.accept();
+  await socket.nextMessage();
+  controller.abort("Request scope ended");
+
+  const error = await assertRejects(() => started, AbortError);
+  assertEquals(error.reason, "Request scope ended");
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals(events, []);
+  assertEquals(socket.readyState, 3);
+  assertEquals(client._reconnectTimer, undefined);
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+  client.end();
+});
+
+Deno.test("aborting a call rejects it and removes its callback", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const hub = client.connection.hub;
+
+  const controller = new AbortController();
+  const result = hub.call("chat", "send", ["hi"], {
+    signal: controller.signal,
+  });
+  await nextMessage(socket);
+  controller.abort("Request scope ended");
+  const error = await assertRejects(() => result, AbortError);
+  assertEquals(error.reason, "Request scope ended");
+  assertEquals(hub.callbacks, {});
+  assertEquals(hub._pending, {});
+
+  // A result arriving after the abort is ignored.
+  socket.send(
+    write({ type: MessageType.completion, invocationId: "0", result: "sent" }),
+  );
+  await new Promise((resolve) => setTimeout(resolve));
+  assertEquals(client.connection.state, ConnectionState.connected);
+  client.end();
+});
+
+Deno.test("invocations from the server call the bound handlers", async () => {
+  const { client, memory } = createClient();
+  const received = new Promise((resolve) => {
+    client.connection.hub.on("chat", "message", resolve);
+  });
+  const { socket } = await connect(client, memory);
+
+  socket.send(write({
+    type: MessageType.invocation,
+    target: "message",
+    arguments: ["hello"],
+  }));
+  assertEquals(await received, ["hello"]);
+  client.end();
+});
+
+Deno.test("a close message with an error disconnects", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const pending = client.connection.hub.call("chat", "send", ["hi"]);
+  const disconnected = client.waitFor((event) =>
+    event[0] === "disconnected" ? [event[1]] : null
+  );
+
+  socket.send(
+    write({ type: MessageType.close, error: "Server shutting down" }),
+  );
+  assertEquals(await disconnected, { reason: "Server shutting down" });
+  await assertRejects(() => pending, ConnectionClosedError);
+  assertEquals(client.connection.state, ConnectionState.disconnected);
+  assertEquals(client._reconnectTimer, undefined);
+  assertEquals(socket.readyState, 3);
+});
+
+Deno.test("pings keep the connection alive", async () => {
+  const { client, memory } = createClient({ keepAliveInterval: 10 });
+  const { socket } = await connect(client, memory);
+
+  // The first ping is sent right after connecting.
+  assertEquals(await nextMessage(socket), { type: MessageType.ping });
+  socket.send(write({ type: MessageType.ping }));
+  assertEquals(await nextMessage(socket), { type: MessageType.ping });
+  client.end();
+});
+
+Deno.test("streams yield items until they complete", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const items: unknown[] = [];
+  const done = (async () => {
+    for await (
+      const item of client.connection.hub.stream("chat", "counter", [2])
+    ) {
+      items.push(item);
+    }
+  })();
+
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.streamInvocation,
+    invocationId: "0",
+    target: "counter",
+    arguments: [2],
+  });
+  socket.send(write(
+    { type: MessageType.streamItem, invocationId: "0", item: 1 },
+    { type: MessageType.streamItem, invocationId: "0", item: 2 },
+    { type: MessageType.completion, invocationId: "0" },
+  ));
+  await done;
+  assertEquals(items, [1, 2]);
+  assertEquals(client.connection.hub.streams, {});
+  client.end();
+});
+
+Deno.test("streams throw the error they complete with", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const items: unknown[] = [];
+  const done = (async () => {
+    for await (
+      const item of client.connection.hub.stream("chat", "counter", [2])
+    ) {
+      items.push(item);
+    }
+  })();
+
+  await nextMessage(socket);
+  socket.send(write(
+    { type: MessageType.streamItem, invocationId: "0", item: 1 },
+    { type: MessageType.completion, invocationId: "0", error: "Overflow" },
+  ));
+  await assertRejects(() => done, HubInvocationError, "Overflow");
+  assertEquals(items, [1]);
+  client.end();
+});
+
+Deno.test("breaking out of a stream cancels the invocation", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const done = (async () => {
+    for await (
+      const _ of client.connection.hub.stream("chat", "counter", [2])
+    ) {
+      break;
+    }
+  })();
+
+  await nextMessage(socket);
+  socket.send(
+    write({ type: MessageType.streamItem, invocationId: "0", item: 1 }),
+  );
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.cancelInvocation,
+    invocationId: "0",
+  });
+  await done;
+  assertEquals(client.connection.hub.streams, {});
+
+  // Items arriving after the cancellation are ignored.
+  socket.send(
+    write({ type: MessageType.streamItem, invocationId: "0", item: 2 }),
+  );
+  const iterator = client.connection.hub.stream("chat", "counter", [1])
+    [Symbol.asyncIterator]();
+  await nextMessage(socket);
+  const cancelled = nextMessage(socket);
+  await iterator.return!();
+  assertEquals(await cancelled, {
+    type: MessageType.cancelInvocation,
+    invocationId: "1",
+  });
+  client.end();
+});
+
+Deno.test("streams are rejected when the connection closes", async () => {
+  const { client, memory } = createClient();
+  await connect(client, memory);
+  const iterator = client.connection.hub.stream("chat", "counter", [2])
+    [Symbol.asyncIterator]();
+  const next = iterator.next();
+  client.end();
+  await assertRejects(() => next, ConnectionClosedError);
+});
+
+Deno.test("stream arguments are sent as stream items", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  const stream = new ReadableStream<number>({
+    start(controller) {
+      controller.enqueue(1);
+      controller.enqueue(2);
+      controller.close();
+    },
+  });
+  client.connection.hub.invoke("chat", "upload", [stream]);
+
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.invocation,
+    target: "upload",
+    arguments: [],
+    streamIds: ["1"],
+  });
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.streamItem,
+    invocationId: "1",
+    item: 1,
+  });
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.streamItem,
+    invocationId: "1",
+    item: 2,
+  });
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.completion,
+    invocationId: "1",
+  });
+  client.end();
+});
+
+Deno.test("stream arguments which fail complete with their error", async () => {
+  const { client, memory } = createClient();
+  const { socket } = await connect(client, memory);
+  async function* readings() {
+    yield 1;
+    throw new Error("Sensor offline");
+  }
+  const result = client.connection.hub.call("chat", "upload", [readings()]);
+
+  assertEquals(
+    (await nextMessage(socket) as { streamIds: string[] }).streamIds,
+    [
+      "1",
+    ],
+  );
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.streamItem,
+    invocationId: "1",
+    item: 1,
+  });
+  assertEquals(await nextMessage(socket), {
+    type: MessageType.completion,
+    invocationId: "1",
+    error: "Sensor offline",
+  });
+  socket.send(
+    write({ type: MessageType.completion, invocationId: "0", result: 1 }),
+  );
+  assertEquals(await result, 1);
+  client.end();
+});
@@ -0,0 +1,161 @@
+/**
+ * Base error for a hub method invocation which did not complete successfully.
+ */
+export class InvocationError extends Error {
+  /**
+   * The hub name.
+   */
+  public hub: string;
+
+  /**
+   * The hub method name.
+   */
+  public method: string;
+
+  /**
+   * The invocation ID.
+   */
+  public invocationId: number;
+
+  /**
+   * Construct an invocation error.
+   * @param message - The error message.
+   * @param hub - The hub name.
+   * @param method - The hub method name.
+   * @param invocationId - The invocation ID.
+   */
+  constructor(
+    message: string,
+    hub: string,
+    method: string,
+    invocationId: number,
+  ) {
+    super(message);
+    this.name = "InvocationError";
+    this.hub = hub;
+    this.method = method;
+    this.invocationId = invocationId;
+  }
+}
+
+/**
+ * The server returned an error for a hub method invocation.
+ */
+export class HubInvocationError extends InvocationError {
+  /**
+   * Whether the error was thrown as a `HubException` on the server.
+   */
+  public isHubException: boolean;
+
+  /**
+   * The error data sent with a `HubException`.
+   */
+  public errorData: unknown;
+
+  /**
+   * The server stack trace, only sent when detailed errors are enabled.
+   */
+  public serverStackTrace?: string;
+
+  /**
+   * Construct a hub invocation error.
+   * @param message - The error message from the server.
+   * @param hub - The hub name.
+   * @param method - The hub method name.
+   * @param invocationId - The invocation ID.
+   * @param isHubException - Whether the error was thrown as a `HubException`.
+   * @param errorData - The error data sent with a `HubException`.
+   * @param serverStackTrace - The server stack trace.
+   */
+  constructor(
+    message: string,
+    hub: string,
+    method: string,
+    invocationId: number,
+    isHubException = false,
+    errorData?: unknown,
+    serverStackTrace?: string,
+  ) {
+    super(message, hub, method, invocationId);
+    this.name = "HubInvocationError";
+    this.isHubException = isHubException;
+    this.errorData = errorData;
+    this.serverStackTrace = serverStackTrace;
+  }
+}
+
+/**
+ * The server did not respond to a hub method invocation in time.
+ */
+export class InvocationTimeoutError extends InvocationError {
+  /**
+   * The timeout in milliseconds.
+   */
+  public timeout: number;
+
+  /**
+   * Construct an invocation timeout error.
+   * @param hub - The hub name.
+   * @param method - The hub method name.
+   * @param invocationId - The invocation ID.
+   * @param timeout - The timeout in milliseconds.
+   */
+  constructor(
+    hub: string,
+    method: string,
+    invocationId: number,
+    timeout: number,
+  ) {
+    super(
+      `Invocation of ${hub}.${method} timed out after ${timeout}ms`,
+      hub,
+      method,
+      invocationId,
+    );
+    this.name = "InvocationTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The connection was closed before a hub method invocation completed.
+ */
+export class ConnectionClosedError extends InvocationError {
+  /**
+   * Construct a connection closed error.
+   * @param hub - The hub name.
+   * @param method - The hub method name.
+   * @param invocationId - The invocation ID.
+   * @param message - The error message.
+   */
+  constructor(
+    hub: string,
+    method: string,
+    invocationId: number,
+    message = "Connection closed before the invocation completed",
+  ) {
+    super(message, hub, method, invocationId);
+    this.name = "ConnectionClosedError";
+  }
+}
+
+/**
+ * An operation was cancelled through its `AbortSignal`.
+ */
+export class AbortError extends Error {
+  /**
+   * The abort reason of the signal.
+   */
+  public reason: unknown;
+
+  /**
+   * Construct an abort error.
+   * @param reason - The abort reason of the signal.
+   * @param message - The error message.
+   */
+  constructor(reason?: unknown, message = "The operation was aborted") {
+    super(message);
+    this.name = "AbortError";
+    this.reason = reason;
+  }
+}
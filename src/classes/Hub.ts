@@ -1,4 +1,115 @@
-import { type Client } from "./Client.ts";
+import type { HubMessageData } from "./Client.ts";
+import {
+  AbortError,
+  ConnectionClosedError,
+  HubInvocationError,
+  InvocationTimeoutError,
+} from "./Errors.ts";
+import { isStreamArgument } from "../utils/streamArguments.ts";
+
+/**
+ * Additional options for a hub method call.
+ */
+export interface CallOptions {
+  /**
+   * Function to be called with each progress value reported by the server.
+   * Every progress report restarts the call timeout.
+   */
+  onProgress?: (progress: unknown) => void;
+  /**
+   * Signal which cancels waiting for the result once aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Additional options for a hub method handler.
+ */
+export interface HandlerOptions {
+  /**
+   * Signal which unbinds the handler once aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The client a hub sends its invocations through.
+ */
+export interface HubClient<
+  Message extends [string, string, unknown[], unknown[]],
+> {
+  /**
+   * The timeout for calls in milliseconds.
+   */
+  callTimeout: number;
+  /**
+   * The latest invocation ID.
+   */
+  _invocationId: number;
+  /**
+   * Send a Hub message to the server.
+   * @param hub - The message hub to send a message to.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  _sendMessage(hub: Message[0], method: Message[1], args: Message[3]): void;
+  /**
+   * Send a streaming Hub message to the server, if streaming is supported.
+   * @param hub - The message hub to send a message to.
+   * @param method - The method to send with the data.
+   * @param args - Arguments to send.
+   */
+  _sendStreamInvocation?(
+    hub: Message[0],
+    method: Message[1],
+    args: Message[3],
+  ): void;
+  /**
+   * Cancel a streaming invocation, if streaming is supported.
+   * @param invocationId - The invocation ID.
+   */
+  _cancelInvocation?(invocationId: number): void;
+}
+
+/**
+ * Receiver of the items of a streaming invocation.
+ */
+export interface StreamSubscriber {
+  /**
+   * Function to be called with each stream item.
+   */
+  next: (item: unknown) => void;
+  /**
+   * Function to be called once the stream completes.
+   */
+  complete: (error?: string) => void;
+}
+
+/**
+ * A call or streaming invocation still waiting for the server.
+ */
+export interface PendingInvocation {
+  /**
+   * The invocation ID.
+   */
+  invocationId: number;
+  /**
+   * The hub name.
+   */
+  hub: string;
+  /**
+   * The hub method name.
+   */
+  method: string;
+  /**
+   * The arguments the method was invoked with.
+   */
+  args: unknown[];
+  /**
+   * When the invocation was made, in milliseconds since the epoch.
+   */
+  startedAt: number;
+}
 
 /**
  * SignalR hub for connections.
@@ -14,12 +125,17 @@ export class Hub<
   /**
    * SignalR client
    */
-  public client: Client<Message>;
+  public client: HubClient<Message>;
 
   /**
    * Hub method message handlers.
    */
-  public handlers: [string, string, (message: Message[2]) => void][] = [];
+  public handlers: [
+    string,
+    string,
+    (message: Message[2]) => void,
+    boolean?,
+  ][] = [];
 
   /**
    * Hub any method message handlers.
@@ -29,32 +145,163 @@ export class Hub<
   /**
    * Hub message callbacks.
    */
-  public callbacks: Record<
+  public callbacks: Record<number, (data: HubMessageData) => void> = {};
+
+  /**
+   * Hub state objects, sent with every invocation and merged from every result.
+   */
+  public state: Record<string, Record<string, unknown>> = {};
+
+  /**
+   * Hub message progress handlers.
+   */
+  public progressHandlers: Record<number, (progress: unknown) => void> = {};
+
+  /**
+   * Hub streaming invocation subscribers.
+   */
+  public streams: Record<number, StreamSubscriber> = {};
+
+  /**
+   * The hub of each invocation sent, until its result arrives, so state
+   * returned with any result can be merged.
+   */
+  public _invocationHubs: Record<number, string> = {};
+
+  /**
+   * Hub pending invocations and the functions rejecting them.
+   */
+  public _pending: Record<
     number,
-    (error?: string, result?: string | boolean) => void
+    [PendingInvocation, (error: Error) => void]
   > = {};
 
   /**
    * Construct a SignalR hub.
    * @param client - The SignalR client for the hub to use.
    */
-  constructor(client: Client<Message>) {
+  constructor(client: HubClient<Message>) {
     this.client = client;
   }
 
+  /**
+   * The calls and streaming invocations still waiting for the server.
+   * Read it in a `disconnected` handler to see the invocations being rejected.
+   */
+  public get pendingInvocations(): PendingInvocation[] {
+    return Object.values(this._pending).map(([invocation]) => invocation);
+  }
+
+  /**
+   * Reject a pending invocation with a `ConnectionClosedError`.
+   * @param invocationId - The invocation ID.
+   * @param message - The error message.
+   */
+  public _rejectInvocation(invocationId: number, message?: string): void {
+    const pending = this._pending[invocationId];
+    if (!pending) return;
+    const [invocation, reject] = pending;
+    reject(
+      new ConnectionClosedError(
+        invocation.hub,
+        invocation.method,
+        invocation.invocationId,
+        message,
+      ),
+    );
+  }
+
+  /**
+   * Reject every pending invocation with a `ConnectionClosedError`.
+   * @param message - The error message.
+   * @param except - The IDs of invocations to keep, such as queued ones.
+   */
+  public _rejectPending(message?: string, except: number[] = []): void {
+    for (const [{ invocationId }] of Object.values(this._pending)) {
+      if (!except.includes(invocationId)) {
+        this._rejectInvocation(invocationId, message);
+      }
+    }
+  }
+
   /**
    * Handle a callback message.
    * @param invocationId - The invocation ID.
-   * @param error - AN error string.
-   * @param result - The result.
+   * @param data - The result message data.
    */
-  public _handleCallback(
-    invocationId: number,
-    error?: string,
-    result?: boolean,
-  ): void {
+  public _handleCallback(invocationId: number, data: HubMessageData): void {
+    const hub = this._invocationHubs[invocationId];
+    delete this._invocationHubs[invocationId];
+    if (hub !== undefined) this._mergeState(hub, data.S);
     const callback = this.callbacks[invocationId];
-    if (callback && typeof (callback) === "function") callback(error, result);
+    if (callback && typeof (callback) === "function") callback(data);
+  }
+
+  /**
+   * Handle a stream item message.
+   * @param invocationId - The invocation ID.
+   * @param item - The stream item.
+   */
+  public _handleStreamItem(invocationId: number, item: unknown): void {
+    const subscriber = this.streams[invocationId];
+    if (subscriber) subscriber.next(item);
+  }
+
+  /**
+   * Handle the completion of a streaming invocation.
+   * @param invocationId - The invocation ID.
+   * @param error - The error message, when the stream failed.
+   */
+  public _handleStreamCompletion(invocationId: number, error?: string): void {
+    const subscriber = this.streams[invocationId];
+    if (subscriber) subscriber.complete(error);
+  }
+
+  /**
+   * Get the mutable state object of a hub.
+   * @param hub - The hub name.
+   */
+  public getState<Hub extends Message[0]>(hub: Hub): Record<string, unknown> {
+    return this.state[hub] ??= {};
+  }
+
+  /**
+   * Merge state changes into the state object of a hub.
+   * @param hub - The hub name.
+   * @param state - The hub state changes.
+   */
+  public _mergeState(hub: string, state?: Record<string, unknown>): void {
+    if (state) Object.assign(this.getState(hub), state);
+  }
+
+  /**
+   * Dispatch a method invocation from the server to the bound handlers.
+   * @param hub - The hub name.
+   * @param method - The method name.
+   * @param message - The method arguments.
+   */
+  public _dispatch(hub: string, method: string, message: Message[2]): void {
+    const handlers = this.handlers.filter(([handlerHub, handlerMethod]) =>
+      (hub === handlerHub) && (method === handlerMethod)
+    );
+    this.handlers = this.handlers.filter((handler) =>
+      !(handler[3] && handlers.includes(handler))
+    );
+    handlers.forEach(([_hub, _method, callback]) => callback(message));
+
+    this.anyHandlers
+      .filter(([handlerHub]) => hub === handlerHub)
+      .forEach(([_hub, callback]) => callback(method, message));
+  }
+
+  /**
+   * Handle a progress message.
+   * @param invocationId - The invocation ID.
+   * @param progress - The progress data.
+   */
+  public _handleProgress(invocationId: number, progress: unknown): void {
+    const handler = this.progressHandlers[invocationId];
+    if (handler && typeof (handler) === "function") handler(progress);
   }
 
   /**
@@ -62,6 +309,8 @@ export class Hub<
    * @param hub - The hub name.
    * @param method - The method name.
    * @param callback - Function to be called on callback.
+   * @param options - Additional handler options.
+   * @returns Function which unbinds the callback.
    */
   public on<
     Hub extends Message[0],
@@ -75,16 +324,73 @@ export class Hub<
         [Hub, Method, unknown, unknown]
       >[2],
     ) => unknown,
+    options: HandlerOptions = {},
+  ): () => void {
+    return this._addHandler([hub, method, callback], options);
+  }
+
+  /**
+   * Bind events that will receive the next message from a specific hub method.
+   * @param hub - The hub name.
+   * @param method - The method name.
+   * @param callback - Function to be called on callback.
+   * @param options - Additional handler options.
+   * @returns Function which unbinds the callback.
+   */
+  public once<
+    Hub extends Message[0],
+    Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[1],
+  >(
+    hub: Hub,
+    method: Method,
+    callback: (
+      message: Extract<
+        Message,
+        [Hub, Method, unknown, unknown]
+      >[2],
+    ) => unknown,
+    options: HandlerOptions = {},
+  ): () => void {
+    return this._addHandler([hub, method, callback, true], options);
+  }
+
+  /**
+   * Unbind events from a specific hub method.
+   * @param hub - The hub name.
+   * @param method - The method name.
+   * @param callback - The callback to unbind, all callbacks when omitted.
+   */
+  public off<
+    Hub extends Message[0],
+    Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[1],
+  >(
+    hub: Hub,
+    method: Method,
+    callback?: (
+      message: Extract<
+        Message,
+        [Hub, Method, unknown, unknown]
+      >[2],
+    ) => unknown,
   ): void {
-    this.handlers.push([hub, method, callback]);
+    this.handlers = this.handlers.filter((
+      [handlerHub, handlerMethod, handler],
+    ) =>
+      !(
+        handlerHub === hub && handlerMethod === method &&
+        (!callback || handler === callback)
+      )
+    );
   }
 
   /**
    * Bind events that will receive messages.
    * @param method - The method name.
    * @param callback - Function to be called on callback.
+   * @param options - Additional handler options.
+   * @returns Function which unbinds the callback.
    */
-    public onAny<
+  public onAny<
     Hub extends Message[0],
     Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[1],
   >(
@@ -96,19 +402,76 @@ export class Hub<
         [Hub, Method, unknown, unknown]
       >[2],
     ) => unknown,
+    options: HandlerOptions = {},
+  ): () => void {
+    const { signal } = options;
+    if (signal?.aborted) return () => {};
+    const handler: [string, (method: Message[1], message: Message[2]) => void] =
+      [hub, callback];
+    this.anyHandlers.push(handler);
+
+    const dispose = () => {
+      this.anyHandlers = this.anyHandlers.filter((entry) => entry !== handler);
+      signal?.removeEventListener("abort", dispose);
+    };
+    signal?.addEventListener("abort", dispose);
+    return dispose;
+  }
+
+  /**
+   * Unbind events that receive all messages of a hub.
+   * @param hub - The hub name.
+   * @param callback - The callback to unbind, all callbacks when omitted.
+   */
+  public offAny<Hub extends Message[0]>(
+    hub: Hub,
+    callback?: (method: Message[1], message: Message[2]) => unknown,
   ): void {
-    this.anyHandlers.push([hub, callback]);
+    this.anyHandlers = this.anyHandlers.filter(([handlerHub, handler]) =>
+      !(handlerHub === hub && (!callback || handler === callback))
+    );
   }
 
+  /**
+   * Add a hub method handler, removing it once the signal aborts.
+   * @param handler - The handler entry.
+   * @param options - Additional handler options.
+   */
+  public _addHandler(
+    handler: [string, string, (message: Message[2]) => void, boolean?],
+    options: HandlerOptions,
+  ): () => void {
+    const { signal } = options;
+    if (signal?.aborted) return () => {};
+    this.handlers.push(handler);
+
+    const dispose = () => {
+      this.handlers = this.handlers.filter((entry) => entry !== handler);
+      signal?.removeEventListener("abort", dispose);
+    };
+    signal?.addEventListener("abort", dispose);
+    return dispose;
+  }
 
   /**
    * Process invocation arguments.
+   * Streams are kept as they are, to be sent as stream invocations.
    * @param args - The invocation args.
    */
   public _processInvocationArgs(args: Message[3]): Message[3] {
-    return args.map((arg) =>
-      (typeof arg === "function" || typeof arg === "undefined") ? null : arg
-    );
+    return args.map((arg) => {
+      if (isStreamArgument(arg)) {
+        if (!this.client._sendStreamInvocation) {
+          throw new TypeError(
+            "Streaming arguments are only supported by ASP.net Core.",
+          );
+        }
+        return arg;
+      }
+      return (typeof arg === "function" || typeof arg === "undefined")
+        ? null
+        : arg;
+    });
   }
 
   /**
@@ -116,6 +479,7 @@ export class Hub<
    * @param hub - The SignalR hub.
    * @param method - The SignalR hub method.
    * @param args - The arguments.
+   * @param options - Additional call options.
    */
   public call<
     Hub extends Message[0],
@@ -124,24 +488,77 @@ export class Hub<
     hub: Hub,
     method: Method,
     args: Extract<Message, [Hub, Method, unknown, unknown]>[3],
+    options: CallOptions = {},
   ): Promise<unknown> {
     return new Promise((resolve, reject) => {
+      const { onProgress, signal } = options;
+      if (signal?.aborted) return reject(new AbortError(signal.reason));
       const messages = this._processInvocationArgs(args);
       const invocationId = this.client._invocationId;
-      const timeoutTimer = setTimeout(() => {
-        delete this.callbacks[invocationId];
-        reject(new Error("Timeout"));
-      }, this.client._callTimeout || this.client.callTimeout || 5000);
-      this.callbacks[invocationId] = (
-        error?: string,
-        result?: string | boolean,
-      ) => {
+      let timeoutTimer: number | undefined;
+      const cleanup = () => {
         clearTimeout(timeoutTimer);
         delete this.callbacks[invocationId];
-        if (error) reject(error);
-        resolve(result);
+        delete this.progressHandlers[invocationId];
+        delete this._pending[invocationId];
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new AbortError(signal?.reason));
       };
-      this.client._sendMessage(hub, method, messages);
+      const startTimeout = () => {
+        const timeout = this.client.callTimeout || 5000;
+        timeoutTimer = setTimeout(() => {
+          cleanup();
+          reject(
+            new InvocationTimeoutError(hub, method, invocationId, timeout),
+          );
+        }, timeout);
+      };
+      startTimeout();
+      signal?.addEventListener("abort", onAbort);
+      this._pending[invocationId] = [
+        { invocationId, hub, method, args: messages, startedAt: Date.now() },
+        (error: Error) => {
+          cleanup();
+          reject(error);
+        },
+      ];
+      this.progressHandlers[invocationId] = (progress: unknown) => {
+        clearTimeout(timeoutTimer);
+        startTimeout();
+        onProgress?.(progress);
+      };
+      this.callbacks[invocationId] = (data: HubMessageData) => {
+        cleanup();
+        if (data.E !== undefined) {
+          reject(
+            new HubInvocationError(
+              data.E,
+              hub,
+              method,
+              invocationId,
+              data.H,
+              data.D,
+              data.T,
+            ),
+          );
+        } else resolve(data.R);
+      };
+      try {
+        this.client._sendMessage(hub, method, messages);
+      } catch (error) {
+        cleanup();
+        reject(
+          new ConnectionClosedError(
+            hub,
+            method,
+            invocationId,
+            error instanceof Error ? error.message : undefined,
+          ),
+        );
+      }
     });
   }
 
@@ -153,7 +570,7 @@ export class Hub<
    */
   public invoke<
     Hub extends Message[0],
-    Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[0],
+    Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[1],
   >(
     hub: Hub,
     method: Method,
@@ -162,4 +579,124 @@ export class Hub<
     const messages = this._processInvocationArgs(args);
     if (this.client) this.client._sendMessage(hub, method, messages);
   }
+
+  /**
+   * Call a streaming method, returning its items as they arrive.
+   * The invocation is sent once iteration starts, and breaking out of the
+   * iteration cancels it.
+   * @param hub - The SignalR hub.
+   * @param method - The SignalR hub method.
+   * @param args - The arguments.
+   */
+  public stream<
+    Hub extends Message[0],
+    Method extends Extract<Message, [Hub, unknown, unknown, unknown]>[1],
+  >(
+    hub: Hub,
+    method: Method,
+    args: Extract<Message, [Hub, Method, unknown, unknown]>[3],
+  ): AsyncIterable<unknown> {
+    const client = this.client;
+    if (!client._sendStreamInvocation || !client._cancelInvocation) {
+      throw new TypeError(
+        "Streaming invocations are only supported by ASP.net Core.",
+      );
+    }
+
+    return {
+      [Symbol.asyncIterator]: (): AsyncIterator<unknown> => {
+        const messages = this._processInvocationArgs(args);
+        const invocationId = client._invocationId;
+        const items: unknown[] = [];
+        let done = false;
+        let failure: Error | undefined;
+        let waiting:
+          | {
+            resolve: (result: IteratorResult<unknown>) => void;
+            reject: (error: Error) => void;
+          }
+          | undefined;
+
+        const settle = () => {
+          if (!waiting) return;
+          const { resolve, reject } = waiting;
+          if (items.length) resolve({ value: items.shift(), done: false });
+          else if (failure) {
+            reject(failure);
+            failure = undefined;
+          } else if (done) resolve({ value: undefined, done: true });
+          else return;
+          waiting = undefined;
+        };
+
+        this.streams[invocationId] = {
+          next: (item: unknown) => {
+            items.push(item);
+            settle();
+          },
+          complete: (error?: string) => {
+            delete this.streams[invocationId];
+            delete this._pending[invocationId];
+            done = true;
+            if (error !== undefined) {
+              failure = new HubInvocationError(
+                error,
+                hub,
+                method,
+                invocationId,
+              );
+            }
+            settle();
+          },
+        };
+
+        this._pending[invocationId] = [
+          { invocationId, hub, method, args: messages, startedAt: Date.now() },
+          (error: Error) => {
+            delete this.streams[invocationId];
+            delete this._pending[invocationId];
+            done = true;
+            failure = error;
+            settle();
+          },
+        ];
+
+        try {
+          client._sendStreamInvocation!(hub, method, messages);
+        } catch (error) {
+          delete this.streams[invocationId];
+          delete this._pending[invocationId];
+          done = true;
+          failure = new ConnectionClosedError(
+            hub,
+            method,
+            invocationId,
+            error instanceof Error ? error.message : undefined,
+          );
+        }
+
+        return {
+          next: () =>
+            new Promise((resolve, reject) => {
+              waiting = { resolve, reject };
+              settle();
+            }),
+          return: () => {
+            if (!done) {
+              done = true;
+              delete this.streams[invocationId];
+              delete this._pending[invocationId];
+              try {
+                client._cancelInvocation!(invocationId);
+              } catch {
+                // The invocation ends with the connection anyway.
+              }
+            }
+            items.length = 0;
+            return Promise.resolve({ value: undefined, done: true });
+          },
+        };
+      },
+    };
+  }
 }
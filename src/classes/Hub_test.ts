@@ -0,0 +1,129 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Hub } from "./Hub.ts";
+
+/**
+ * The messages of the chat hub: [hub, method, received args, sent args].
+ */
+type ChatMessage =
+  | ["chat", "message", [string], unknown[]]
+  | ["chat", "joined", [string], unknown[]]
+  | ["news", "message", [string], unknown[]];
+
+/**
+ * Create a hub with a client which doesn't send anything.
+ */
+function createHub() {
+  return new Hub<ChatMessage>({
+    callTimeout: 0,
+    _invocationId: 0,
+    _sendMessage() {},
+  });
+}
+
+Deno.test("on calls the handler for every message of its method", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  hub.on("chat", "message", (message) => received.push(message));
+
+  hub._dispatch("chat", "message", ["a"]);
+  hub._dispatch("chat", "joined", ["b"]);
+  hub._dispatch("news", "message", ["c"]);
+  hub._dispatch("chat", "message", ["d"]);
+  assertEquals(received, [["a"], ["d"]]);
+});
+
+Deno.test("on returns a disposer unbinding the handler", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  const dispose = hub.on(
+    "chat",
+    "message",
+    (message) => received.push(message),
+  );
+  hub.on("chat", "message", () => {});
+
+  hub._dispatch("chat", "message", ["a"]);
+  dispose();
+  dispose();
+  hub._dispatch("chat", "message", ["b"]);
+  assertEquals(received, [["a"]]);
+  assertEquals(hub.handlers.length, 1);
+});
+
+Deno.test("once calls the handler exactly once", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  hub.once("chat", "message", (message) => received.push(message));
+  hub.on("chat", "message", (message) => received.push(message));
+
+  hub._dispatch("chat", "joined", ["a"]);
+  hub._dispatch("chat", "message", ["b"]);
+  hub._dispatch("chat", "message", ["c"]);
+  assertEquals(received, [["b"], ["b"], ["c"]]);
+  assertEquals(hub.handlers.length, 1);
+});
+
+Deno.test("off unbinds one or all handlers of a method", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  const first = (message: [string]) => received.push(["first", ...message]);
+  const second = (message: [string]) => received.push(["second", ...message]);
+  hub.on("chat", "message", first);
+  hub.on("chat", "message", second);
+  hub.on("chat", "joined", first);
+
+  hub.off("chat", "message", first);
+  hub._dispatch("chat", "message", ["a"]);
+  hub.off("chat", "message");
+  hub._dispatch("chat", "message", ["b"]);
+  hub._dispatch("chat", "joined", ["c"]);
+  assertEquals(received, [["second", "a"], ["first", "c"]]);
+});
+
+Deno.test("onAny receives every method of its hub until unbound", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  const callback = (method: string, message: unknown) =>
+    received.push([method, message]);
+  const dispose = hub.onAny("chat", callback);
+
+  hub._dispatch("chat", "message", ["a"]);
+  hub._dispatch("news", "message", ["b"]);
+  hub._dispatch("chat", "joined", ["c"]);
+  dispose();
+  hub._dispatch("chat", "message", ["d"]);
+  hub.onAny("chat", callback);
+  hub.offAny("chat", callback);
+  hub._dispatch("chat", "message", ["e"]);
+  assertEquals(received, [["message", ["a"]], ["joined", ["c"]]]);
+  assertEquals(hub.anyHandlers, []);
+});
+
+Deno.test("handlers are unbound when their signal aborts", () => {
+  const hub = createHub();
+  const received: unknown[] = [];
+  const controller = new AbortController();
+  const { signal } = controller;
+  hub.on("chat", "message", (message) => received.push(message), { signal });
+  hub.once("chat", "joined", (message) => received.push(message), { signal });
+  hub.onAny("chat", (method) => received.push(method), { signal });
+
+  hub._dispatch("chat", "message", ["a"]);
+  controller.abort();
+  hub._dispatch("chat", "message", ["b"]);
+  hub._dispatch("chat", "joined", ["c"]);
+  assertEquals(received, [["a"], "message"]);
+  assertEquals(hub.handlers, []);
+  assertEquals(hub.anyHandlers, []);
+});
+
+Deno.test("handlers aren't bound with an aborted signal", () => {
+  const hub = createHub();
+  const signal = AbortSignal.abort();
+  const dispose = hub.on("chat", "message", () => {}, { signal });
+  hub.onAny("chat", () => {}, { signal });
+
+  dispose();
+  assertEquals(hub.handlers, []);
+  assertEquals(hub.anyHandlers, []);
+});
@@ -0,0 +1,298 @@
+import zlib from "node:zlib";
+import { WebSocketError } from "./frame.ts";
+import { HandshakeError } from "./handshake.ts";
+
+/**
+ * Options for the permessage-deflate extension (RFC 7692).
+ */
+export interface CompressionOptions {
+  /**
+   * Ask the server to compress every message without the context of the
+   * previous ones, which saves server memory but compresses worse.
+   */
+  serverNoContextTakeover?: boolean;
+  /**
+   * Compress every outgoing message without the context of the previous ones.
+   */
+  clientNoContextTakeover?: boolean;
+  /**
+   * The maximum LZ77 window size the server may compress with, from 8 to 15
+   * bits. Default: 15
+   */
+  serverMaxWindowBits?: number;
+  /**
+   * The LZ77 window size to compress outgoing messages with, from 8 to 15
+   * bits. The server may ask for a smaller one. Default: 15
+   */
+  clientMaxWindowBits?: number;
+  /**
+   * The minimum size in bytes of an outgoing message to compress it, smaller
+   * messages are sent as is. Use Infinity to only decompress incoming
+   * messages. Default: 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * The parameters of a negotiated permessage-deflate extension.
+ */
+export interface DeflateParameters {
+  serverNoContextTakeover: boolean;
+  clientNoContextTakeover: boolean;
+  serverMaxWindowBits: number;
+  clientMaxWindowBits: number;
+}
+
+/**
+ * The bytes a sync flush ends with, which are left out of every message.
+ */
+const TRAILER = new Uint8Array([0x00, 0x00, 0xff, 0xff]);
+
+/**
+ * Check a window bits option.
+ *
+ * @param name The option name
+ * @param bits The option value
+ */
+function checkWindowBits(name: string, bits?: number) {
+  if (
+    bits !== undefined && !(Number.isInteger(bits) && bits >= 8 && bits <= 15)
+  ) {
+    throw new RangeError(`WS: ${name} must be an integer from 8 to 15`);
+  }
+}
+
+/**
+ * Parse a window bits parameter value of the response.
+ *
+ * @param name The parameter name
+ * @param value The parameter value
+ * @param max The largest accepted value
+ */
+function parseWindowBits(name: string, value: string | true, max = 15) {
+  const bits = value === true ? NaN : Number(value);
+  if (!Number.isInteger(bits) || bits < 8 || bits > max) {
+    throw new HandshakeError(101, `WS: Invalid ${name} value: ${value}`);
+  }
+  return bits;
+}
+
+/**
+ * Run data through a zlib stream and flush it.
+ *
+ * @param stream The zlib stream
+ * @param data The data
+ * @param maxLength The maximum output length
+ */
+function flushThrough(
+  stream: zlib.DeflateRaw | zlib.InflateRaw,
+  data: Uint8Array,
+  maxLength = Infinity,
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const onData = (chunk: Uint8Array) => {
+      length += chunk.length;
+      // Past the limit, the output is discarded instead of buffered.
+      if (length <= maxLength) chunks.push(chunk);
+    };
+    stream.on("data", onData);
+    stream.write(data);
+    stream.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+      stream.off("data", onData);
+      if (stream.errored) return reject(stream.errored);
+      if (length > maxLength) {
+        return reject(new WebSocketError(1009, "WS: Message too large"));
+      }
+      const output = new Uint8Array(length);
+      let offset = 0;
+      for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+      }
+      resolve(output);
+    });
+  });
+}
+
+/**
+ * The permessage-deflate extension of a connection, compressing and
+ * decompressing whole messages.
+ */
+export class PerMessageDeflate {
+  /**
+   * The negotiated parameters.
+   */
+  public parameters: DeflateParameters;
+
+  /**
+   * The minimum size in bytes of an outgoing message to compress it.
+   */
+  public threshold: number;
+
+  private deflater?: zlib.DeflateRaw;
+  private inflater?: zlib.InflateRaw;
+
+  /**
+   * Construct the extension from negotiated parameters.
+   * @param parameters - The negotiated parameters.
+   * @param threshold - The minimum size in bytes of an outgoing message to compress it.
+   */
+  constructor(parameters: DeflateParameters, threshold = 1024) {
+    this.parameters = parameters;
+    this.threshold = threshold;
+  }
+
+  /**
+   * Create the `Sec-WebSocket-Extensions` value offering the extension.
+   * @param options - The compression options.
+   */
+  static offer(options: CompressionOptions = {}): string {
+    const parameters = ["permessage-deflate"];
+    if (options.serverNoContextTakeover) {
+      parameters.push("server_no_context_takeover");
+    }
+    if (options.clientNoContextTakeover) {
+      parameters.push("client_no_context_takeover");
+    }
+    checkWindowBits("serverMaxWindowBits", options.serverMaxWindowBits);
+    checkWindowBits("clientMaxWindowBits", options.clientMaxWindowBits);
+    if (options.serverMaxWindowBits !== undefined) {
+      parameters.push(`server_max_window_bits=${options.serverMaxWindowBits}`);
+    }
+    // Without a value, this tells the server it may limit the window.
+    parameters.push(
+      options.clientMaxWindowBits === undefined
+        ? "client_max_window_bits"
+        : `client_max_window_bits=${options.clientMaxWindowBits}`,
+    );
+    return parameters.join("; ");
+  }
+
+  /**
+   * Accept the extension from the `Sec-WebSocket-Extensions` response header.
+   * @param header - The header value.
+   * @param options - The compression options the extension was offered with.
+   * @throws {HandshakeError} When the server responds with an extension or parameters which weren't offered.
+   */
+  static accept(
+    header: string,
+    options: CompressionOptions = {},
+  ): PerMessageDeflate {
+    const extensions = header.split(",");
+    const [name, ...rawParameters] = extensions[0].split(";")
+      .map((part) => part.trim());
+    if (extensions.length > 1 || name !== "permessage-deflate") {
+      throw new HandshakeError(101, `WS: Unexpected extensions: ${header}`);
+    }
+
+    const parameters: DeflateParameters = {
+      serverNoContextTakeover: false,
+      clientNoContextTakeover: !!options.clientNoContextTakeover,
+      serverMaxWindowBits: 15,
+      clientMaxWindowBits: options.clientMaxWindowBits ?? 15,
+    };
+    const seen = new Set<string>();
+    for (const parameter of rawParameters) {
+      const separator = parameter.indexOf("=");
+      const key = (separator < 0 ? parameter : parameter.slice(0, separator))
+        .trim();
+      const value = separator < 0
+        ? true
+        : parameter.slice(separator + 1).trim().replace(/^"(.*)"$/, "$1");
+      if (seen.has(key)) {
+        throw new HandshakeError(101, `WS: Duplicate ${key} parameter`);
+      }
+      seen.add(key);
+
+      switch (key) {
+        case "server_no_context_takeover":
+          parameters.serverNoContextTakeover = true;
+          break;
+        case "client_no_context_takeover":
+          parameters.clientNoContextTakeover = true;
+          break;
+        case "server_max_window_bits":
+          parameters.serverMaxWindowBits = parseWindowBits(
+            key,
+            value,
+            options.serverMaxWindowBits,
+          );
+          break;
+        case "client_max_window_bits":
+          parameters.clientMaxWindowBits = parseWindowBits(
+            key,
+            value,
+            options.clientMaxWindowBits,
+          );
+          break;
+        default:
+          throw new HandshakeError(
+            101,
+            `WS: Unexpected permessage-deflate parameter: ${key}`,
+          );
+      }
+    }
+    if (
+      options.serverNoContextTakeover && !parameters.serverNoContextTakeover
+    ) {
+      throw new HandshakeError(101, "WS: Missing server_no_context_takeover");
+    }
+    return new PerMessageDeflate(parameters, options.threshold);
+  }
+
+  /**
+   * Compress an outgoing message.
+   * @param data - The message payload.
+   */
+  async compress(data: Uint8Array): Promise<Uint8Array> {
+    this.deflater ??= zlib.createDeflateRaw({
+      windowBits: this.parameters.clientMaxWindowBits,
+    }).on("error", () => {});
+    const deflater = this.deflater;
+    try {
+      const output = await flushThrough(deflater, data);
+      // The trailer of the sync flush is implied by the receiver.
+      return output.subarray(0, output.length - TRAILER.length);
+    } finally {
+      if (this.parameters.clientNoContextTakeover || deflater.errored) {
+        this.deflater = undefined;
+        deflater.close();
+      }
+    }
+  }
+
+  /**
+   * Decompress an incoming message.
+   * @param data - The compressed message payload.
+   * @param maxLength - The maximum length of the decompressed message.
+   * @throws {WebSocketError} With code 1009 when the decompressed message is too large.
+   */
+  async decompress(data: Uint8Array, maxLength?: number): Promise<Uint8Array> {
+    this.inflater ??= zlib.createInflateRaw({
+      windowBits: this.parameters.serverMaxWindowBits,
+    }).on("error", () => {});
+    const inflater = this.inflater;
+    const input = new Uint8Array(data.length + TRAILER.length);
+    input.set(data);
+    input.set(TRAILER, data.length);
+    try {
+      return await flushThrough(inflater, input, maxLength);
+    } finally {
+      if (this.parameters.serverNoContextTakeover || inflater.errored) {
+        this.inflater = undefined;
+        inflater.close();
+      }
+    }
+  }
+
+  /**
+   * Free the compression contexts.
+   */
+  close() {
+    this.deflater?.close();
+    this.inflater?.close();
+    this.deflater = this.inflater = undefined;
+  }
+}
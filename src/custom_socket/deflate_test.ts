@@ -0,0 +1,169 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { PerMessageDeflate } from "./deflate.ts";
+import { WebSocketError } from "./frame.ts";
+import { HandshakeError } from "./handshake.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// "Hello" compressed with an empty context, from RFC 7692, section 7.2.3.1.
+const compressedHello = [0xf2, 0x48, 0xcd, 0xc9, 0xc9, 0x07, 0x00];
+
+/**
+ * Create an extension with default parameters.
+ */
+function createDeflate(
+  parameters: Partial<PerMessageDeflate["parameters"]> = {},
+) {
+  return new PerMessageDeflate({
+    serverNoContextTakeover: false,
+    clientNoContextTakeover: false,
+    serverMaxWindowBits: 15,
+    clientMaxWindowBits: 15,
+    ...parameters,
+  });
+}
+
+Deno.test("offer lists the requested parameters", () => {
+  assertEquals(
+    PerMessageDeflate.offer(),
+    "permessage-deflate; client_max_window_bits",
+  );
+  assertEquals(
+    PerMessageDeflate.offer({
+      serverNoContextTakeover: true,
+      clientNoContextTakeover: true,
+      serverMaxWindowBits: 10,
+      clientMaxWindowBits: 12,
+    }),
+    "permessage-deflate; server_no_context_takeover; " +
+      "client_no_context_takeover; server_max_window_bits=10; " +
+      "client_max_window_bits=12",
+  );
+  assertThrows(
+    () => PerMessageDeflate.offer({ serverMaxWindowBits: 16 }),
+    RangeError,
+  );
+});
+
+Deno.test("accept reads the negotiated parameters", () => {
+  const deflate = PerMessageDeflate.accept(
+    'permessage-deflate; server_no_context_takeover; server_max_window_bits=10; client_max_window_bits="9"',
+    { serverMaxWindowBits: 12, threshold: 0 },
+  );
+  assertEquals(deflate.parameters, {
+    serverNoContextTakeover: true,
+    clientNoContextTakeover: false,
+    serverMaxWindowBits: 10,
+    clientMaxWindowBits: 9,
+  });
+  assertEquals(deflate.threshold, 0);
+});
+
+Deno.test("accept rejects responses which weren't offered", () => {
+  const cases: [string, Parameters<typeof PerMessageDeflate.accept>[1]][] = [
+    ["x-webkit-deflate-frame", {}],
+    ["permessage-deflate, permessage-deflate", {}],
+    ["permessage-deflate; unknown", {}],
+    [
+      "permessage-deflate; client_no_context_takeover; client_no_context_takeover",
+      {},
+    ],
+    ["permessage-deflate; server_max_window_bits=7", {}],
+    ["permessage-deflate; server_max_window_bits", {}],
+    ["permessage-deflate; server_max_window_bits=12", {
+      serverMaxWindowBits: 10,
+    }],
+    ["permessage-deflate; client_max_window_bits=15", {
+      clientMaxWindowBits: 9,
+    }],
+    ["permessage-deflate", { serverNoContextTakeover: true }],
+  ];
+  for (const [header, options] of cases) {
+    assertThrows(
+      () => PerMessageDeflate.accept(header, options),
+      HandshakeError,
+      undefined,
+      header,
+    );
+  }
+});
+
+Deno.test("compress matches the RFC 7692 example", async () => {
+  const deflate = createDeflate();
+  assertEquals(
+    [...await deflate.compress(encoder.encode("Hello"))],
+    compressedHello,
+  );
+  deflate.close();
+});
+
+Deno.test("decompress inflates the RFC 7692 example", async () => {
+  const deflate = createDeflate();
+  const payload = await deflate.decompress(new Uint8Array(compressedHello));
+  assertEquals(decoder.decode(payload), "Hello");
+  deflate.close();
+});
+
+Deno.test("compress keeps the context between messages", async () => {
+  const sender = createDeflate();
+  const receiver = createDeflate();
+  const message = encoder.encode(
+    JSON.stringify({ H: "hub", M: "method", A: [1, 2, 3] }),
+  );
+  const first = await sender.compress(message);
+  const second = await sender.compress(message);
+  // The second message refers back to the first.
+  assertEquals(second.length < first.length, true);
+  assertEquals(await receiver.decompress(first), message);
+  assertEquals(await receiver.decompress(second), message);
+  sender.close();
+  receiver.close();
+});
+
+Deno.test("compress resets the context without context takeover", async () => {
+  const deflate = createDeflate({ clientNoContextTakeover: true });
+  const message = encoder.encode("Hello");
+  assertEquals([...await deflate.compress(message)], compressedHello);
+  assertEquals([...await deflate.compress(message)], compressedHello);
+  deflate.close();
+});
+
+Deno.test("compress uses the negotiated window size", async () => {
+  const sender = createDeflate({ clientMaxWindowBits: 9 });
+  const receiver = createDeflate({ serverMaxWindowBits: 9 });
+  const message = encoder.encode("abcdefgh".repeat(1000));
+  assertEquals(
+    await receiver.decompress(await sender.compress(message)),
+    message,
+  );
+  sender.close();
+  receiver.close();
+});
+
+Deno.test("decompress rejects invalid data and recovers", async () => {
+  const deflate = createDeflate();
+  await assertRejects(() =>
+    deflate.decompress(new Uint8Array([1, 2, 3, 4, 5]))
+  );
+  const payload = await deflate.decompress(new Uint8Array(compressedHello));
+  assertEquals(decoder.decode(payload), "Hello");
+  deflate.close();
+});
+
+Deno.test("decompress rejects messages over the maximum length", async () => {
+  const sender = createDeflate();
+  const receiver = createDeflate();
+  const compressed = await sender.compress(new Uint8Array(100000));
+  const error = await assertRejects(
+    () => receiver.decompress(compressed, 99999),
+    WebSocketError,
+  );
+  assertEquals((error as WebSocketError).code, 1009);
+  sender.close();
+  receiver.close();
+});
@@ -0,0 +1,250 @@
+import type { ByteReader } from "./reader.ts";
+
+/**
+ * The frame opcodes defined by RFC 6455.
+ */
+export enum OpCode {
+  Continue = 0x0,
+  TextFrame = 0x1,
+  BinaryFrame = 0x2,
+  Close = 0x8,
+  Ping = 0x9,
+  Pong = 0xa,
+}
+
+/**
+ * A single WebSocket frame.
+ */
+export interface WebSocketFrame {
+  isLastFrame: boolean;
+  opcode: OpCode;
+  /**
+   * The masking key, which the payload is masked with when written.
+   * The payload of a read frame is already unmasked.
+   */
+  mask?: Uint8Array;
+  payload: Uint8Array;
+  /**
+   * The RSV1 bit, set on compressed messages by permessage-deflate.
+   */
+  rsv1?: boolean;
+}
+
+/**
+ * A message which can be sent over a WebSocket.
+ */
+export type WebSocketMessage = string | Uint8Array;
+
+/**
+ * Error failing the WebSocket connection, with the close code to send.
+ */
+export class WebSocketError extends Error {
+  /**
+   * The close code describing the failure, such as 1002 for protocol errors.
+   */
+  public code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * Check whether an opcode is for a control frame.
+ *
+ * @param opcode The opcode
+ */
+export function isControlFrame(opcode: OpCode): boolean {
+  return (opcode & 0x8) !== 0;
+}
+
+/**
+ * Check whether a close code may be sent in a Close frame. Codes 1005, 1006
+ * and 1015 are reserved for reporting closes without a code.
+ *
+ * @param code The close code
+ */
+export function isValidCloseCode(code: number): boolean {
+  return (code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 &&
+    code !== 1006) || (code >= 3000 && code <= 4999);
+}
+
+/**
+ * Encode the payload of a Close frame.
+ *
+ * @param code The close code, or undefined for an empty payload
+ * @param reason The close reason
+ */
+export function encodeClosePayload(code?: number, reason = ""): Uint8Array {
+  if (code === undefined) return new Uint8Array(0);
+  const reasonBytes = new TextEncoder().encode(reason);
+  const payload = new Uint8Array(2 + reasonBytes.length);
+  new DataView(payload.buffer).setUint16(0, code);
+  payload.set(reasonBytes, 2);
+  return payload;
+}
+
+/**
+ * Decode the payload of a Close frame.
+ *
+ * @param payload The payload
+ * @returns The close code, 1005 without one, and the close reason
+ * @throws {WebSocketError} When the code is invalid or the reason isn't UTF-8.
+ */
+export function decodeClosePayload(
+  payload: Uint8Array,
+): { code: number; reason: string } {
+  if (!payload.length) return { code: 1005, reason: "" };
+  if (payload.length === 1) {
+    throw new WebSocketError(1002, "WS: Close frame payload too short");
+  }
+  const code = (payload[0] << 8) | payload[1];
+  if (!isValidCloseCode(code)) {
+    throw new WebSocketError(1002, `WS: Invalid close code ${code}`);
+  }
+  try {
+    const reason = new TextDecoder("utf-8", { fatal: true }).decode(
+      payload.subarray(2),
+    );
+    return { code, reason };
+  } catch {
+    throw new WebSocketError(1007, "WS: Close reason isn't valid UTF-8");
+  }
+}
+
+/**
+ * XOR a payload with a masking key, in place. Masking twice unmasks.
+ *
+ * @param payload The payload
+ * @param mask The 4 byte masking key
+ */
+export function applyMask(payload: Uint8Array, mask: Uint8Array) {
+  for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+}
+
+/**
+ * Encode a frame to bytes, masking the payload if it has a masking key.
+ *
+ * @param frame The frame
+ */
+export function encodeFrame(frame: WebSocketFrame): Uint8Array {
+  const { payload, mask } = frame;
+  const length = payload.length;
+  const headerLength = length < 126 ? 2 : length < 0x10000 ? 4 : 10;
+  const maskLength = mask ? 4 : 0;
+  const bytes = new Uint8Array(headerLength + maskLength + length);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = (frame.isLastFrame ? 0x80 : 0) | (frame.rsv1 ? 0x40 : 0) |
+    frame.opcode;
+  if (length < 126) {
+    bytes[1] = length;
+  } else if (length < 0x10000) {
+    bytes[1] = 126;
+    view.setUint16(2, length);
+  } else {
+    bytes[1] = 127;
+    view.setBigUint64(2, BigInt(length));
+  }
+
+  bytes.set(payload, headerLength + maskLength);
+  if (mask) {
+    bytes[1] |= 0x80;
+    bytes.set(mask, headerLength);
+    applyMask(bytes.subarray(headerLength + maskLength), mask);
+  }
+  return bytes;
+}
+
+/**
+ * Read a frame, unmasking its payload.
+ *
+ * @param reader The reader to read the frame from
+ * @param maxLength The maximum payload length of data frames, checked before
+ * reading it
+ * @throws {WebSocketError} When the frame violates the protocol or is too
+ * large.
+ */
+export async function readFrame(
+  reader: ByteReader,
+  maxLength = Number.MAX_SAFE_INTEGER,
+): Promise<WebSocketFrame> {
+  const [first, second] = await reader.readFull(2);
+  const isLastFrame = (first & 0x80) !== 0;
+  const rsv1 = (first & 0x40) !== 0;
+  const opcode: OpCode = first & 0x0f;
+  if (first & 0x30) throw new WebSocketError(1002, "WS: Reserved bits set");
+  if (!(opcode in OpCode)) {
+    throw new WebSocketError(1002, `WS: Unknown opcode ${opcode}`);
+  }
+
+  let length = second & 0x7f;
+  if (length === 126) {
+    length = new DataView((await reader.readFull(2)).buffer).getUint16(0);
+  } else if (length === 127) {
+    const bigLength = new DataView((await reader.readFull(8)).buffer)
+      .getBigUint64(0);
+    if (bigLength > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new WebSocketError(1009, "WS: Frame too large");
+    }
+    length = Number(bigLength);
+  }
+  if (isControlFrame(opcode) && (length > 125 || !isLastFrame)) {
+    throw new WebSocketError(
+      1002,
+      "WS: Control frames must be unfragmented and at most 125 bytes",
+    );
+  }
+  if (!isControlFrame(opcode) && length > maxLength) {
+    throw new WebSocketError(1009, "WS: Message too large");
+  }
+
+  const mask = second & 0x80 ? await reader.readFull(4) : undefined;
+  const payload = await reader.readFull(length);
+  if (mask) applyMask(payload, mask);
+  return { isLastFrame, opcode, mask, payload, rsv1 };
+}
+
+/**
+ * Write a frame to a connection.
+ *
+ * @param frame The frame
+ * @param writer The connection to write to
+ */
+export async function writeFrame(
+  frame: WebSocketFrame,
+  writer: Pick<Deno.Conn, "write">,
+) {
+  const bytes = encodeFrame(frame);
+  for (let written = 0; written < bytes.length;) {
+    written += await writer.write(bytes.subarray(written));
+  }
+}
+
+/**
+ * Split a message frame into fragments with payloads of at most `size` bytes.
+ * The first fragment keeps the opcode and RSV1 bit, the rest are continuation
+ * frames.
+ *
+ * @param frame The unfragmented frame
+ * @param size The maximum payload size of a fragment
+ */
+export function fragmentFrame(
+  frame: WebSocketFrame,
+  size: number,
+): WebSocketFrame[] {
+  if (!(size >= 1)) throw new RangeError("WS: Fragment size must be positive");
+  const { payload } = frame;
+  if (payload.length <= size || isControlFrame(frame.opcode)) return [frame];
+  const frames: WebSocketFrame[] = [];
+  for (let offset = 0; offset < payload.length; offset += size) {
+    frames.push({
+      isLastFrame: offset + size >= payload.length,
+      opcode: offset ? OpCode.Continue : frame.opcode,
+      rsv1: offset ? false : frame.rsv1,
+      payload: payload.subarray(offset, offset + size),
+    });
+  }
+  return frames;
+}
@@ -0,0 +1,291 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  decodeClosePayload,
+  encodeClosePayload,
+  encodeFrame,
+  fragmentFrame,
+  OpCode,
+  readFrame,
+  WebSocketError,
+  writeFrame,
+} from "./frame.ts";
+import { ByteReader } from "./reader.ts";
+
+/**
+ * Create a reader returning the given chunks one read at a time.
+ */
+function readerOf(...chunks: number[][]): ByteReader {
+  const pending = chunks.map((chunk) => new Uint8Array(chunk));
+  return new ByteReader({
+    read(p) {
+      const chunk = pending.shift();
+      if (!chunk) return Promise.resolve(null);
+      if (chunk.length > p.length) pending.unshift(chunk.subarray(p.length));
+      p.set(chunk.subarray(0, p.length));
+      return Promise.resolve(Math.min(chunk.length, p.length));
+    },
+  });
+}
+
+const text = (value: string) => [...new TextEncoder().encode(value)];
+const hello = text("Hello");
+
+// Examples from RFC 6455, section 5.7.
+const unmaskedHello = [0x81, 0x05, ...hello];
+const maskedHello = [
+  0x81,
+  0x85,
+  0x37,
+  0xfa,
+  0x21,
+  0x3d,
+  0x7f,
+  0x9f,
+  0x4d,
+  0x51,
+  0x58,
+];
+
+Deno.test("readFrame reads an unmasked text frame", async () => {
+  const frame = await readFrame(readerOf(unmaskedHello));
+  assertEquals(frame.isLastFrame, true);
+  assertEquals(frame.opcode, OpCode.TextFrame);
+  assertEquals(frame.mask, undefined);
+  assertEquals([...frame.payload], hello);
+});
+
+Deno.test("readFrame unmasks a masked text frame", async () => {
+  const frame = await readFrame(readerOf(maskedHello));
+  assertEquals([...frame.mask!], [0x37, 0xfa, 0x21, 0x3d]);
+  assertEquals([...frame.payload], hello);
+});
+
+Deno.test("readFrame reads fragments and frames split across reads", async () => {
+  const reader = readerOf([0x01, 0x03, 0x48], [0x65, 0x6c, 0x80], [
+    0x02,
+    0x6c,
+    0x6f,
+  ]);
+  const first = await readFrame(reader);
+  const last = await readFrame(reader);
+  assertEquals(first.isLastFrame, false);
+  assertEquals(first.opcode, OpCode.TextFrame);
+  assertEquals([...first.payload], text("Hel"));
+  assertEquals(last.isLastFrame, true);
+  assertEquals(last.opcode, OpCode.Continue);
+  assertEquals([...last.payload], text("lo"));
+});
+
+Deno.test("readFrame reads 16-bit lengths", async () => {
+  const payload = Array.from({ length: 256 }, (_, i) => i & 0xff);
+  const frame = await readFrame(readerOf([0x82, 0x7e, 0x01, 0x00, ...payload]));
+  assertEquals(frame.opcode, OpCode.BinaryFrame);
+  assertEquals([...frame.payload], payload);
+});
+
+Deno.test("readFrame reads 64-bit lengths", async () => {
+  const payload = new Array(65536).fill(0x2a);
+  const frame = await readFrame(
+    readerOf([0x82, 0x7f, 0, 0, 0, 0, 0, 0x01, 0x00, 0x00], payload),
+  );
+  assertEquals(frame.payload.length, 65536);
+  assertEquals(frame.payload[65535], 0x2a);
+});
+
+Deno.test("readFrame reads the RSV1 bit", async () => {
+  const frame = await readFrame(readerOf([0xc1, 0x00]));
+  assertEquals(frame.rsv1, true);
+});
+
+Deno.test("readFrame rejects protocol violations", async () => {
+  const cases: [number[], number][] = [
+    // RSV2 set.
+    [[0xa1, 0x00], 1002],
+    // Reserved opcode 0x3.
+    [[0x83, 0x00], 1002],
+    // Fragmented ping.
+    [[0x09, 0x00], 1002],
+    // Ping with a 126 byte payload.
+    [[0x89, 0x7e, 0x00, 0x7e], 1002],
+    // 64-bit length with the most significant bit set.
+    [[0x82, 0x7f, 0x80, 0, 0, 0, 0, 0, 0, 0], 1009],
+  ];
+  for (const [bytes, code] of cases) {
+    const error = await assertRejects(
+      () => readFrame(readerOf(bytes)),
+      WebSocketError,
+    );
+    assertEquals((error as WebSocketError).code, code);
+  }
+});
+
+Deno.test("readFrame rejects truncated frames", async () => {
+  await assertRejects(
+    () => readFrame(readerOf([0x81, 0x05, 0x48, 0x65])),
+    Deno.errors.UnexpectedEof,
+  );
+});
+
+Deno.test("encodeFrame encodes unmasked and masked frames", () => {
+  const payload = new Uint8Array(hello);
+  assertEquals(
+    [...encodeFrame({ isLastFrame: true, opcode: OpCode.TextFrame, payload })],
+    unmaskedHello,
+  );
+  assertEquals(
+    [
+      ...encodeFrame({
+        isLastFrame: true,
+        opcode: OpCode.TextFrame,
+        payload,
+        mask: new Uint8Array([0x37, 0xfa, 0x21, 0x3d]),
+      }),
+    ],
+    maskedHello,
+  );
+  // The payload isn't masked in place.
+  assertEquals([...payload], hello);
+});
+
+Deno.test("encodeFrame encodes 16-bit and 64-bit lengths", () => {
+  const medium = encodeFrame({
+    isLastFrame: true,
+    opcode: OpCode.BinaryFrame,
+    payload: new Uint8Array(256),
+  });
+  assertEquals([...medium.subarray(0, 4)], [0x82, 0x7e, 0x01, 0x00]);
+  assertEquals(medium.length, 260);
+
+  const large = encodeFrame({
+    isLastFrame: true,
+    opcode: OpCode.BinaryFrame,
+    payload: new Uint8Array(65536),
+  });
+  assertEquals(
+    [...large.subarray(0, 10)],
+    [0x82, 0x7f, 0, 0, 0, 0, 0, 0x01, 0x00, 0x00],
+  );
+  assertEquals(large.length, 65546);
+});
+
+Deno.test("encodeFrame sets the FIN and RSV1 bits", () => {
+  const bytes = encodeFrame({
+    isLastFrame: false,
+    opcode: OpCode.BinaryFrame,
+    payload: new Uint8Array(0),
+    rsv1: true,
+  });
+  assertEquals([...bytes], [0x42, 0x00]);
+});
+
+Deno.test("writeFrame output reads back as the same frame", async () => {
+  const chunks: number[][] = [];
+  const payload = new Uint8Array(70000).map((_, i) => i & 0xff);
+  await writeFrame({
+    isLastFrame: true,
+    opcode: OpCode.BinaryFrame,
+    payload,
+    mask: new Uint8Array([1, 2, 3, 4]),
+  }, {
+    write(p) {
+      // Accept at most 1000 bytes per write.
+      chunks.push([...p.subarray(0, 1000)]);
+      return Promise.resolve(Math.min(p.length, 1000));
+    },
+  });
+  const frame = await readFrame(readerOf(...chunks));
+  assertEquals(frame.payload, payload);
+});
+
+Deno.test("fragmentFrame splits a message into continuation frames", () => {
+  const frames = fragmentFrame({
+    isLastFrame: true,
+    opcode: OpCode.TextFrame,
+    payload: new Uint8Array(hello),
+    rsv1: true,
+  }, 2);
+  assertEquals(
+    frames.map((
+      { isLastFrame, opcode, rsv1, payload },
+    ) => [isLastFrame, opcode, rsv1, [...payload]]),
+    [
+      [false, OpCode.TextFrame, true, text("He")],
+      [false, OpCode.Continue, false, text("ll")],
+      [true, OpCode.Continue, false, text("o")],
+    ],
+  );
+});
+
+Deno.test("fragmentFrame keeps small and control frames whole", () => {
+  const ping = {
+    isLastFrame: true,
+    opcode: OpCode.Ping,
+    payload: new Uint8Array(hello),
+  };
+  assertEquals(fragmentFrame(ping, 2), [ping]);
+  const message = { ...ping, opcode: OpCode.TextFrame };
+  assertEquals(fragmentFrame(message, 5), [message]);
+});
+
+Deno.test("fragmentFrame rejects sizes below one byte", () => {
+  assertThrows(
+    () =>
+      fragmentFrame({
+        isLastFrame: true,
+        opcode: OpCode.BinaryFrame,
+        payload: new Uint8Array(hello),
+      }, 0),
+    RangeError,
+  );
+});
+
+Deno.test("encodeClosePayload encodes the code and reason", () => {
+  assertEquals([...encodeClosePayload(1000, "ok")], [0x03, 0xe8, 0x6f, 0x6b]);
+  assertEquals([...encodeClosePayload()], []);
+});
+
+Deno.test("decodeClosePayload decodes the code and reason", () => {
+  assertEquals(decodeClosePayload(new Uint8Array([0x0f, 0xa1, 0x68, 0x69])), {
+    code: 4001,
+    reason: "hi",
+  });
+  assertEquals(decodeClosePayload(new Uint8Array(0)), {
+    code: 1005,
+    reason: "",
+  });
+});
+
+Deno.test("decodeClosePayload rejects invalid payloads", () => {
+  const cases: [number[], number][] = [
+    // Only one byte of the code.
+    [[0x03], 1002],
+    // 1005 can't be sent.
+    [[0x03, 0xed], 1002],
+    // 999 is outside the defined ranges.
+    [[0x03, 0xe7], 1002],
+    // The reason isn't UTF-8.
+    [[0x03, 0xe8, 0xc3, 0x28], 1007],
+  ];
+  for (const [bytes, code] of cases) {
+    const error = assertThrows(
+      () => decodeClosePayload(new Uint8Array(bytes)),
+      WebSocketError,
+    );
+    assertEquals((error as WebSocketError).code, code);
+  }
+});
+
+Deno.test("readFrame rejects data frames over the maximum length", async () => {
+  // Only the header is available, so the payload must not be read.
+  const error = await assertRejects(
+    () => readFrame(readerOf([0x82, 0x7e, 0x01, 0x00]), 255),
+    WebSocketError,
+  );
+  assertEquals((error as WebSocketError).code, 1009);
+  const ping = await readFrame(readerOf([0x89, 0x02, 0x68, 0x69]), 0);
+  assertEquals(ping.opcode, OpCode.Ping);
+});
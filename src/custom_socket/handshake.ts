@@ -0,0 +1,132 @@
+import type { ByteReader } from "./reader.ts";
+
+/**
+ * The GUID appended to the key to compute `Sec-WebSocket-Accept`.
+ */
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Error for an upgrade request the server didn't accept.
+ */
+export class HandshakeError extends Error {
+  /**
+   * The HTTP status of the response, or 0 if the response was malformed.
+   */
+  public status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Encode bytes to base64.
+ *
+ * @param bytes The bytes
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Create a random `Sec-WebSocket-Key`.
+ */
+export function createKey(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Compute the `Sec-WebSocket-Accept` value the server must answer a key with.
+ *
+ * @param key The `Sec-WebSocket-Key` of the request
+ */
+export async function createAcceptKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(key + WEBSOCKET_GUID),
+  );
+  return toBase64(new Uint8Array(digest));
+}
+
+/**
+ * Perform the opening handshake of a WebSocket connection.
+ *
+ * @param url The WebSocket URL
+ * @param headers Additional headers of the upgrade request
+ * @param reader The reader of the connection
+ * @param writer The connection to write the request to
+ * @returns The headers of the upgrade response
+ * @throws {HandshakeError} When the server doesn't switch protocols or answers
+ * with the wrong `Sec-WebSocket-Accept`.
+ */
+export async function handshake(
+  url: URL,
+  headers: Headers,
+  reader: ByteReader,
+  writer: Pick<Deno.Conn, "write">,
+): Promise<Headers> {
+  const key = createKey();
+  const secure = url.protocol === "https:" || url.protocol === "wss:";
+  const defaultPort = secure ? "443" : "80";
+  const host = url.port && url.port !== defaultPort ? url.host : url.hostname;
+
+  let request = `GET ${url.pathname}${url.search} HTTP/1.1\r\n` +
+    `Host: ${host}\r\n` +
+    "Upgrade: websocket\r\n" +
+    "Connection: Upgrade\r\n" +
+    `Sec-WebSocket-Key: ${key}\r\n` +
+    "Sec-WebSocket-Version: 13\r\n";
+  for (const [name, value] of headers) request += `${name}: ${value}\r\n`;
+  const bytes = new TextEncoder().encode(`${request}\r\n`);
+  for (let written = 0; written < bytes.length;) {
+    written += await writer.write(bytes.subarray(written));
+  }
+
+  const statusLine = await reader.readLine();
+  if (statusLine === null) {
+    throw new HandshakeError(0, "WS: Connection closed during handshake");
+  }
+  const match = statusLine.match(/^HTTP\/1\.1 (\d{3})/);
+  if (!match) {
+    throw new HandshakeError(0, `WS: Malformed status line: ${statusLine}`);
+  }
+
+  const responseHeaders = new Headers();
+  while (true) {
+    const line = await reader.readLine();
+    if (line === null) {
+      throw new HandshakeError(0, "WS: Connection closed during handshake");
+    }
+    if (!line) break;
+    const separator = line.indexOf(":");
+    if (separator < 1) {
+      throw new HandshakeError(0, `WS: Malformed header: ${line}`);
+    }
+    responseHeaders.append(
+      line.slice(0, separator).trim(),
+      line.slice(separator + 1).trim(),
+    );
+  }
+
+  const status = parseInt(match[1]);
+  if (status !== 101) {
+    throw new HandshakeError(
+      status,
+      `WS: Expected status 101 Switching Protocols, got ${status}`,
+    );
+  }
+  if (responseHeaders.get("Upgrade")?.toLowerCase() !== "websocket") {
+    throw new HandshakeError(status, "WS: Missing Upgrade: websocket header");
+  }
+  const connection = responseHeaders.get("Connection")?.toLowerCase() ?? "";
+  if (!connection.split(",").some((token) => token.trim() === "upgrade")) {
+    throw new HandshakeError(status, "WS: Missing Connection: Upgrade header");
+  }
+  if (
+    responseHeaders.get("Sec-WebSocket-Accept") !== await createAcceptKey(key)
+  ) {
+    throw new HandshakeError(status, "WS: Invalid Sec-WebSocket-Accept header");
+  }
+  return responseHeaders;
+}
@@ -0,0 +1,155 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { OpCode, readFrame } from "./frame.ts";
+import { createAcceptKey, handshake, HandshakeError } from "./handshake.ts";
+import { ByteReader } from "./reader.ts";
+
+/**
+ * Fake connection answering the upgrade request with a response built from it.
+ */
+class FakeConn {
+  request = "";
+  private response?: Uint8Array;
+
+  constructor(private respond: (key: string) => Promise<string>) {}
+
+  async write(p: Uint8Array): Promise<number> {
+    this.request += new TextDecoder().decode(p);
+    if (this.request.endsWith("\r\n\r\n")) {
+      const key = this.request.match(/Sec-WebSocket-Key: (.*)\r\n/)![1];
+      // The response is encoded as Latin-1, so it can hold frame bytes.
+      this.response = Uint8Array.from(
+        await this.respond(key),
+        (char) => char.charCodeAt(0),
+      );
+    }
+    return p.length;
+  }
+
+  read(p: Uint8Array): Promise<number | null> {
+    const response = this.response;
+    if (!response?.length) return Promise.resolve(null);
+    p.set(response.subarray(0, p.length));
+    this.response = response.subarray(p.length);
+    return Promise.resolve(Math.min(response.length, p.length));
+  }
+}
+
+/**
+ * Build a successful upgrade response for a key.
+ */
+async function switchingProtocols(key: string, extra = "") {
+  return "HTTP/1.1 101 Switching Protocols\r\n" +
+    "Upgrade: websocket\r\n" +
+    "Connection: Upgrade\r\n" +
+    `Sec-WebSocket-Accept: ${await createAcceptKey(key)}\r\n` +
+    `${extra}\r\n`;
+}
+
+Deno.test("createAcceptKey matches the RFC 6455 example", async () => {
+  assertEquals(
+    await createAcceptKey("dGhlIHNhbXBsZSBub25jZQ=="),
+    "s3pPLMBiTxaQ9kYGzzhZRbK+xOo=",
+  );
+});
+
+Deno.test("handshake sends the upgrade request and returns the headers", async () => {
+  const conn = new FakeConn((key) =>
+    switchingProtocols(key, "Set-Cookie: a=1\r\nSet-Cookie: b=2\r\n")
+  );
+  const headers = await handshake(
+    new URL("ws://example.com/signalr/connect?transport=webSockets"),
+    new Headers({ Authorization: "Bearer token" }),
+    new ByteReader(conn),
+    conn,
+  );
+
+  const [requestLine, ...lines] = conn.request.split("\r\n");
+  assertEquals(
+    requestLine,
+    "GET /signalr/connect?transport=webSockets HTTP/1.1",
+  );
+  for (
+    const line of [
+      "Host: example.com",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      "Sec-WebSocket-Version: 13",
+      "authorization: Bearer token",
+    ]
+  ) {
+    assertEquals(lines.includes(line), true, line);
+  }
+  assertEquals(headers.getSetCookie(), ["a=1", "b=2"]);
+});
+
+Deno.test("handshake keeps a non-default port in the Host header", async () => {
+  const conn = new FakeConn((key) => switchingProtocols(key));
+  await handshake(
+    new URL("wss://example.com:8443/"),
+    new Headers(),
+    new ByteReader(conn),
+    conn,
+  );
+  assertEquals(conn.request.includes("Host: example.com:8443\r\n"), true);
+});
+
+Deno.test("handshake leaves the bytes after the response to the reader", async () => {
+  const conn = new FakeConn(async (key) =>
+    await switchingProtocols(key) + "\x81\x02hi"
+  );
+  const reader = new ByteReader(conn);
+  await handshake(new URL("ws://example.com/"), new Headers(), reader, conn);
+  const frame = await readFrame(reader);
+  assertEquals(frame.opcode, OpCode.TextFrame);
+  assertEquals(new TextDecoder().decode(frame.payload), "hi");
+});
+
+Deno.test("handshake rejects a wrong Sec-WebSocket-Accept", async () => {
+  const conn = new FakeConn(() => switchingProtocols("another key"));
+  await assertRejects(
+    () =>
+      handshake(
+        new URL("ws://example.com/"),
+        new Headers(),
+        new ByteReader(conn),
+        conn,
+      ),
+    HandshakeError,
+    "Sec-WebSocket-Accept",
+  );
+});
+
+Deno.test("handshake rejects other statuses with the status", async () => {
+  const conn = new FakeConn(() =>
+    Promise.resolve("HTTP/1.1 401 Unauthorized\r\nContent-Length: 0\r\n\r\n")
+  );
+  const error = await assertRejects(
+    () =>
+      handshake(
+        new URL("ws://example.com/"),
+        new Headers(),
+        new ByteReader(conn),
+        conn,
+      ),
+    HandshakeError,
+  );
+  assertEquals((error as HandshakeError).status, 401);
+});
+
+Deno.test("handshake rejects a connection closed before the response", async () => {
+  const conn = new FakeConn(() => Promise.resolve(""));
+  await assertRejects(
+    () =>
+      handshake(
+        new URL("ws://example.com/"),
+        new Headers(),
+        new ByteReader(conn),
+        conn,
+      ),
+    HandshakeError,
+    "closed",
+  );
+});
@@ -1,9 +1,17 @@
 // Modified version of custom_socket to fit our needs. MIT license. https://github.com/scientific-dev/custom-socket
 
-import { BufReader, BufWriter } from "https://deno.land/std@0.91.0/io/bufio.ts";
-import { handshake } from "https://deno.land/std@0.91.0/ws/mod.ts";
+import { type CompressionOptions, PerMessageDeflate } from "./deflate.ts";
+import { handshake, HandshakeError } from "./handshake.ts";
+import { ByteReader } from "./reader.ts";
 import WS from "./ws.ts";
 import { detectEnvironment } from "../utils/detectEnvironment.ts";
+import type { CookieJar } from "../utils/cookieJar.ts";
+import {
+  connectThroughProxy,
+  type ProxyOptions,
+  resolveProxy,
+} from "../utils/proxy.ts";
+import { connectTls, type TlsOptions } from "../utils/tls.ts";
 
 /**
  * Creates a websocket connection with custom headers!
@@ -25,46 +33,112 @@ export async function createSocketConnection(
   return new WS(await createConnection(url, headers));
 }
 
+/**
+ * Additional options for creating a connection.
+ */
+export interface ConnectionOptions {
+  /**
+   * Signal which cancels the connection and handshake.
+   */
+  signal?: AbortSignal;
+  /**
+   * The cookie jar to send cookies from with the upgrade request.
+   */
+  cookieJar?: CookieJar;
+  /**
+   * The proxy to tunnel the connection through, false to connect directly.
+   * Default: from the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment
+   * variables
+   */
+  proxy?: ProxyOptions | false;
+  /**
+   * The TLS options for secure connections.
+   */
+  tls?: TlsOptions;
+  /**
+   * Whether to offer permessage-deflate compression, or its options.
+   */
+  compression?: boolean | CompressionOptions;
+}
+
 /**
  * Returns connection details
  *
  * @param url The url of the webpage to create socket connection
  * @param headers Your custom headers
+ * @param options Additional connection options
  */
 export async function createConnection(
   url: string,
   headers: Record<string, string> = {},
+  options: ConnectionOptions = {},
 ): Promise<Connection> {
+  const { signal, cookieJar } = options;
+  signal?.throwIfAborted();
+  const compression = options.compression === true
+    ? {}
+    : options.compression || undefined;
+  const extensionOffer = compression && PerMessageDeflate.offer(compression);
+  const cookie = await cookieJar?.getCookieHeader(url);
   const parsedURL = new URL(url);
   const { protocol, hostname, port } = parsedURL;
+  const proxy = resolveProxy(url, options.proxy);
   let conn: Deno.Conn;
 
   if (protocol == "http:" || protocol == "ws:") {
-    conn = await Deno.connect({ hostname, port: parseInt(port || "80") });
+    conn = proxy
+      ? await connectThroughProxy(proxy, hostname, parseInt(port || "80"))
+      : await Deno.connect({ hostname, port: parseInt(port || "80") });
   } else if (protocol == "https:" || protocol == "wss:") {
-    conn = await Deno.connectTls({ hostname, port: parseInt(port || "443") });
+    conn = await connectTls(
+      hostname,
+      parseInt(port || "443"),
+      options.tls,
+      proxy,
+    );
   } else {
     throw new Error("WS: Unknown protocol supplied to connect: " + protocol);
   }
 
-  const writer = new BufWriter(conn);
-  const reader = new BufReader(conn);
+  if (signal?.aborted) {
+    conn.close();
+    signal.throwIfAborted();
+  }
+  const onAbort = () => conn.close();
+  signal?.addEventListener("abort", onAbort);
+
+  const reader = new ByteReader(conn);
   const headersObject = new Headers();
   for (const header in headers) headersObject.set(header, headers[header]);
+  if (cookie) {
+    const existing = headersObject.get("Cookie");
+    headersObject.set("Cookie", existing ? `${existing}; ${cookie}` : cookie);
+  }
+  if (extensionOffer) {
+    headersObject.set("Sec-WebSocket-Extensions", extensionOffer);
+  }
 
+  let responseHeaders: Headers;
+  let deflate: PerMessageDeflate | undefined;
   try {
-    await handshake(parsedURL, headersObject, reader, writer);
+    responseHeaders = await handshake(parsedURL, headersObject, reader, conn);
+    const extensions = responseHeaders.get("Sec-WebSocket-Extensions");
+    if (extensions && !compression) {
+      throw new HandshakeError(101, `WS: Unexpected extensions: ${extensions}`);
+    } else if (extensions) {
+      deflate = PerMessageDeflate.accept(extensions, compression);
+    }
   } catch (e) {
-    conn.close();
+    if (!signal?.aborted) conn.close();
+    signal?.throwIfAborted();
     throw e;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
   }
 
-  return {
-    conn,
-    bufReader: reader,
-    bufWriter: writer,
-    mask: createMask(),
-  };
+  await cookieJar?.setCookies(url, responseHeaders.getSetCookie());
+
+  return { conn, reader, headers: responseHeaders, deflate };
 }
 
 /**
@@ -72,13 +146,23 @@ export async function createConnection(
  */
 export interface Connection {
   conn: Deno.Conn;
-  bufReader: BufReader;
-  bufWriter: BufWriter;
-  mask: Uint8Array;
+  /**
+   * The reader of the connection, which may hold bytes read past the
+   * handshake.
+   */
+  reader: ByteReader;
+  /**
+   * The headers of the upgrade response.
+   */
+  headers: Headers;
+  /**
+   * The permessage-deflate extension, if the server accepted it.
+   */
+  deflate?: PerMessageDeflate;
 }
 
 /**
- * Creates mask for the createSocketConnection function!
+ * Creates a masking key for a frame sent by the client.
  */
 export function createMask() {
   return crypto.getRandomValues(new Uint8Array(4));
@@ -86,3 +170,6 @@ export function createMask() {
 
 export { default } from "./ws.ts";
 export type { Queue } from "./ws.ts";
+export * from "./frame.ts";
+export { createAcceptKey, HandshakeError } from "./handshake.ts";
+export * from "./deflate.ts";
@@ -0,0 +1,113 @@
+/**
+ * A source of bytes, such as a `Deno.Conn`.
+ */
+export interface ByteSource {
+  read(p: Uint8Array): Promise<number | null>;
+}
+
+/**
+ * Buffered reader for exact byte counts and CRLF-terminated lines.
+ */
+export class ByteReader {
+  private buffer = new Uint8Array(0);
+  private offset = 0;
+  private end = 0;
+  private source: ByteSource;
+  private chunkSize: number;
+
+  /**
+   * Construct a byte reader.
+   * @param source - The source to read from.
+   * @param chunkSize - The amount of bytes to read from the source at once.
+   */
+  constructor(source: ByteSource, chunkSize = 16384) {
+    this.source = source;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * The amount of bytes read from the source but not consumed yet.
+   */
+  get buffered(): number {
+    return this.end - this.offset;
+  }
+
+  /**
+   * Read exactly `length` bytes.
+   * @param length - The amount of bytes to read.
+   * @throws {Deno.errors.UnexpectedEof} When the source ends first.
+   */
+  async readFull(length: number): Promise<Uint8Array> {
+    while (this.buffered < length) {
+      if (!await this.fill()) {
+        throw new Deno.errors.UnexpectedEof(
+          `WS: Expected ${length} bytes, got ${this.buffered}`,
+        );
+      }
+    }
+    const bytes = this.buffer.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Read a line terminated by CRLF, without the terminator.
+   * @param maxLength - The maximum line length in bytes.
+   * @returns The line, or null when the source ends before any byte.
+   */
+  async readLine(maxLength = 8192): Promise<string | null> {
+    let searched = 0;
+    while (true) {
+      const pending = this.buffer.subarray(this.offset, this.end);
+      for (let i = Math.max(searched, 1); i < pending.length; i++) {
+        if (pending[i - 1] === 0x0d && pending[i] === 0x0a) {
+          const line = new TextDecoder().decode(pending.subarray(0, i - 1));
+          this.offset += i + 1;
+          return line;
+        }
+      }
+      searched = pending.length;
+      if (searched > maxLength) throw new Error("WS: Line too long");
+      if (!await this.fill()) {
+        if (!this.buffered) return null;
+        throw new Deno.errors.UnexpectedEof("WS: Unterminated line");
+      }
+    }
+  }
+
+  /**
+   * Read the next chunk from the source into the buffer.
+   * @returns False when the source has ended.
+   */
+  private async fill(): Promise<boolean> {
+    this.reserve(this.chunkSize);
+    const read = await this.source.read(
+      this.buffer.subarray(this.end, this.end + this.chunkSize),
+    );
+    if (read === null) return false;
+    this.end += read;
+    return true;
+  }
+
+  /**
+   * Make room for `length` more bytes after the unconsumed ones, moving them
+   * to the start of the buffer, or into a buffer twice as large when they
+   * don't fit. Growing geometrically keeps reading large frames linear.
+   * @param length - The amount of bytes to make room for.
+   */
+  private reserve(length: number) {
+    if (this.end + length <= this.buffer.length) return;
+    const pending = this.buffer.subarray(this.offset, this.end);
+    if (pending.length + length <= this.buffer.length) {
+      this.buffer.copyWithin(0, this.offset, this.end);
+    } else {
+      const buffer = new Uint8Array(
+        Math.max(this.buffer.length * 2, pending.length + length),
+      );
+      buffer.set(pending);
+      this.buffer = buffer;
+    }
+    this.offset = 0;
+    this.end = pending.length;
+  }
+}
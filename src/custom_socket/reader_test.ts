@@ -0,0 +1,91 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ByteReader, type ByteSource } from "./reader.ts";
+
+/**
+ * Create a source returning the bytes at most `size` bytes per read, counting
+ * the reads.
+ */
+function sourceOf(bytes: Uint8Array, size: number) {
+  let offset = 0;
+  const source = {
+    reads: 0,
+    read(p: Uint8Array): Promise<number | null> {
+      if (offset >= bytes.length) return Promise.resolve(null);
+      source.reads++;
+      const read = Math.min(size, p.length, bytes.length - offset);
+      p.set(bytes.subarray(offset, offset + read));
+      offset += read;
+      return Promise.resolve(read);
+    },
+  } satisfies ByteSource & { reads: number };
+  return source;
+}
+
+/**
+ * Create bytes counting up from 0, wrapping at 256.
+ */
+function counting(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, index) => index % 256);
+}
+
+Deno.test("readFull reads across chunks", async () => {
+  const bytes = counting(100);
+  const reader = new ByteReader(sourceOf(bytes, 7), 16);
+
+  assertEquals(await reader.readFull(3), bytes.subarray(0, 3));
+  assertEquals(await reader.readFull(50), bytes.subarray(3, 53));
+  assertEquals(await reader.readFull(47), bytes.subarray(53));
+  await assertRejects(() => reader.readFull(1), Deno.errors.UnexpectedEof);
+});
+
+Deno.test("readFull reads large payloads with a bounded buffer", async () => {
+  const bytes = counting(1 << 20);
+  const source = sourceOf(new Uint8Array([1, 2, ...bytes]), 16384);
+  const reader = new ByteReader(source);
+
+  assertEquals(await reader.readFull(2), new Uint8Array([1, 2]));
+  assertEquals(await reader.readFull(bytes.length), bytes);
+  assertEquals(reader.buffered, 0);
+  assertEquals(reader["buffer"].length <= bytes.length * 2, true);
+  assertEquals(source.reads, Math.ceil((bytes.length + 2) / 16384));
+});
+
+Deno.test("readFull returns copies of the buffered bytes", async () => {
+  const reader = new ByteReader(sourceOf(counting(64), 8), 8);
+  const first = await reader.readFull(8);
+  await reader.readFull(56);
+
+  assertEquals(first, counting(8));
+});
+
+Deno.test("readLine reads CRLF-terminated lines across chunks", async () => {
+  const text = "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\n\r\n";
+  const reader = new ByteReader(
+    sourceOf(new TextEncoder().encode(`${text}rest`), 5),
+    8,
+  );
+
+  assertEquals(await reader.readLine(), "HTTP/1.1 101 Switching Protocols");
+  assertEquals(await reader.readLine(), "Upgrade: websocket");
+  assertEquals(await reader.readLine(), "");
+  assertEquals(await reader.readFull(4), new TextEncoder().encode("rest"));
+  assertEquals(await reader.readLine(), null);
+});
+
+Deno.test("readLine rejects unterminated and overlong lines", async () => {
+  const encoder = new TextEncoder();
+  await assertRejects(
+    () => new ByteReader(sourceOf(encoder.encode("partial"), 4)).readLine(),
+    Deno.errors.UnexpectedEof,
+  );
+  await assertRejects(
+    () =>
+      new ByteReader(sourceOf(encoder.encode("a".repeat(64)), 8), 8)
+        .readLine(16),
+    Error,
+    "WS: Line too long",
+  );
+});
@@ -1,30 +1,37 @@
 // Modified version of custom_socket to fit our needs. MIT license. https://github.com/scientific-dev/custom-socket
 
-import type {
-  WebSocketFrame,
-  WebSocketMessage,
-} from "https://deno.land/std@0.91.0/ws/mod.ts";
-import type {
-  BufReader,
-  BufWriter,
-} from "https://deno.land/std@0.91.0/io/bufio.ts";
-import {
-  Deferred,
-  deferred,
-} from "https://deno.land/std@0.91.0/async/deferred.ts";
 import {
+  decodeClosePayload,
+  encodeClosePayload,
+  fragmentFrame,
+  isControlFrame,
+  isValidCloseCode,
   OpCode,
   readFrame,
+  WebSocketError,
+  type WebSocketFrame,
+  type WebSocketMessage,
   writeFrame,
-} from "https://deno.land/std@0.91.0/ws/mod.ts";
-import { Connection, createConnection } from "./mod.ts";
+} from "./frame.ts";
+import type { ByteReader } from "./reader.ts";
+import type { CompressionOptions, PerMessageDeflate } from "./deflate.ts";
+import {
+  type Connection,
+  type ConnectionOptions,
+  createConnection,
+  createMask,
+} from "./mod.ts";
+import type { CookieJar } from "../utils/cookieJar.ts";
+import type { ProxyOptions } from "../utils/proxy.ts";
+import type { TlsOptions } from "../utils/tls.ts";
 
 /**
  * The queue object of the WS!
  */
 export interface Queue {
   frame: WebSocketFrame;
-  d: Deferred<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
 }
 
 /**
@@ -32,53 +39,131 @@ export interface Queue {
  */
 export interface WSOptions {
   headers: Record<string, string>;
+  /**
+   * Signal which cancels the connection if it aborts before the socket opens.
+   */
+  signal?: AbortSignal;
+  /**
+   * The cookie jar to send cookies from with the upgrade request.
+   */
+  cookieJar?: CookieJar;
+  /**
+   * The proxy to tunnel the connection through, false to connect directly.
+   */
+  proxy?: ProxyOptions | false;
+  /**
+   * The TLS options for secure connections.
+   */
+  tls?: TlsOptions;
+  /**
+   * Whether to offer permessage-deflate compression, or its options.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * How long to wait for the server to answer a Close frame in milliseconds,
+   * before dropping the connection. Default: 5000
+   */
+  closeTimeout?: number;
+  /**
+   * The maximum size of an incoming message in bytes, after decompression.
+   * Larger messages close the connection with 1009. Default: 100 MiB
+   */
+  maxMessageSize?: number;
+  /**
+   * The maximum payload size of an outgoing frame in bytes. Larger messages
+   * are split into continuation frames. Default: no fragmentation
+   */
+  fragmentSize?: number;
 }
 
 /**
- * Same duplicate class which is used in std/ws/mod.ts WebsocketImpl
+ * WebSocket client over a Deno connection, speaking RFC 6455 frames.
  * This class is made for easy handelling things.
  */
 export default class WS extends EventTarget {
-  protected reader!: BufReader;
-  protected writer!: BufWriter;
-  protected mask!: Uint8Array;
+  protected reader!: ByteReader;
   protected conn!: Deno.Conn;
+  protected deflate?: PerMessageDeflate;
   protected queue: Queue[] = [];
   private _isClosed = false;
+  private listeners: Record<string, EventListener | undefined> = {};
+  private connecting = new AbortController();
+  private closeTimer?: ReturnType<typeof setTimeout>;
+  private closedPromise: Promise<void>;
+  private resolveClosed!: () => void;
   readyState: 0 | 1 | 2 | 3 = 0;
 
   /**
-   * Same duplicate class which is used in std/ws/mod.ts WebsocketImpl
+   * The extensions accepted by the server, like in browser WebSockets.
+   */
+  extensions = "";
+
+  /**
+   * How long to wait for the server to answer a Close frame in milliseconds.
+   */
+  closeTimeout: number;
+
+  /**
+   * The maximum size of an incoming message in bytes, after decompression.
+   */
+  maxMessageSize: number;
+
+  /**
+   * The maximum payload size of an outgoing frame in bytes.
+   */
+  fragmentSize: number;
+
+  /**
+   * WebSocket client over a Deno connection, speaking RFC 6455 frames.
    * This class is made for easy handling things.
    * @param socket The url to connect or the connection options!
    * @param options Options to include.
    */
   constructor(socket: Connection | string, options?: WSOptions) {
     super();
-    this.init(socket, options?.headers ?? {});
+    this.closeTimeout = options?.closeTimeout ?? 5000;
+    this.maxMessageSize = options?.maxMessageSize ?? 100 * 1024 * 1024;
+    this.fragmentSize = options?.fragmentSize ?? Infinity;
+    this.closedPromise = new Promise((resolve) => {
+      this.resolveClosed = resolve;
+    });
+    const signal = options?.signal
+      ? AbortSignal.any([options.signal, this.connecting.signal])
+      : this.connecting.signal;
+    this.init(socket, options?.headers ?? {}, {
+      signal,
+      cookieJar: options?.cookieJar,
+      proxy: options?.proxy,
+      tls: options?.tls,
+      compression: options?.compression,
+    });
   }
 
   private async init(
     socket: Connection | string,
     headers: Record<string, string>,
+    options: ConnectionOptions,
   ) {
-    const {
-      bufReader,
-      bufWriter,
-      mask,
-      conn,
-    } = typeof socket == "string"
-      ? await createConnection(socket, headers)
-      : socket;
+    let connection: Connection;
+    try {
+      connection = typeof socket == "string"
+        ? await createConnection(socket, headers, options)
+        : socket;
+    } catch (error) {
+      this.dispatchEvent(new ErrorEvent("error", { error }));
+      this.finishClose(1006, "", false);
+      return;
+    }
+    const { reader, conn, deflate } = connection;
 
+    this.reader = reader;
+    this.conn = conn;
+    this.deflate = deflate;
+    this.extensions = connection.headers.get("Sec-WebSocket-Extensions") ?? "";
     this.readyState = 1;
     this.dispatchEvent(new Event("open"));
-    this.reader = bufReader;
-    this.writer = bufWriter;
-    this.mask = mask;
-    this.conn = conn;
 
-    const decoder = new TextDecoder();
+    const decoder = new TextDecoder("utf-8", { fatal: true });
     let frames: WebSocketFrame[] = [];
     let payloadsLength = 0;
 
@@ -86,69 +171,116 @@ export default class WS extends EventTarget {
       let frame: WebSocketFrame;
 
       try {
-        frame = await readFrame(this.reader);
-      } catch (e) {
-        this.ensureClosed();
-        break;
+        frame = await readFrame(
+          this.reader,
+          this.maxMessageSize - payloadsLength,
+        );
+        if (frame.mask) {
+          throw new WebSocketError(
+            1002,
+            "WS: Server frames must not be masked",
+          );
+        } else if (
+          frame.rsv1 &&
+          (!this.deflate || frame.opcode == OpCode.Continue ||
+            isControlFrame(frame.opcode))
+        ) {
+          throw new WebSocketError(1002, "WS: Unexpected RSV1 bit");
+        } else if (
+          frame.opcode == OpCode.Continue ? !frames.length : frames.length &&
+            (frame.opcode == OpCode.TextFrame ||
+              frame.opcode == OpCode.BinaryFrame)
+        ) {
+          throw new WebSocketError(1002, "WS: Unexpected fragment");
+        }
+      } catch (error) {
+        // Anything else means the connection dropped or was closed by us.
+        if (error instanceof WebSocketError) this.fail(error);
+        else this.finishClose(1006, "", false);
+        return;
       }
 
       switch (frame.opcode) {
         case OpCode.TextFrame:
         case OpCode.BinaryFrame:
-        case OpCode.Continue:
+        case OpCode.Continue: {
           frames.push(frame);
           payloadsLength += frame.payload.length;
+          if (!frame.isLastFrame) break;
 
-          if (frame.isLastFrame) {
-            const concat = new Uint8Array(payloadsLength);
-            let offs = 0;
+          const concat = new Uint8Array(payloadsLength);
+          let offs = 0;
 
-            for (let i = 0; i < frames.length; i++) {
-              concat.set(frames[i].payload, offs);
-              offs += frames[i].payload.length;
-            }
+          for (let i = 0; i < frames.length; i++) {
+            concat.set(frames[i].payload, offs);
+            offs += frames[i].payload.length;
+          }
+
+          const [first] = frames;
+          frames = [];
+          payloadsLength = 0;
 
-            if (frames[0].opcode == OpCode.TextFrame) {
-              this.dispatchEvent(
-                new MessageEvent("message", {
-                  data: decoder.decode(concat),
-                }),
+          let payload: Uint8Array = concat;
+          if (first.rsv1) {
+            try {
+              payload = await this.deflate!.decompress(
+                concat,
+                this.maxMessageSize,
               );
-            } else {
-              this.dispatchEvent(
-                new MessageEvent("message", {
-                  data: concat,
-                }),
+            } catch (error) {
+              this.fail(
+                error instanceof WebSocketError
+                  ? error
+                  : new WebSocketError(1007, "WS: Invalid compressed message"),
               );
+              return;
             }
-
-            frames = [];
-            payloadsLength = 0;
           }
 
+          let data: WebSocketMessage = payload;
+          if (first.opcode == OpCode.TextFrame) {
+            try {
+              data = decoder.decode(payload);
+            } catch {
+              this.fail(
+                new WebSocketError(1007, "WS: Text message isn't valid UTF-8"),
+              );
+              return;
+            }
+          }
+          this.dispatchEvent(new MessageEvent("message", { data }));
           break;
+        }
 
         case OpCode.Close: {
-          this.readyState = 2;
-          const code = (frame.payload[0] << 8) | frame.payload[1];
-          const reason = decoder.decode(
-            frame.payload.subarray(2, frame.payload.length),
-          );
-          await this.close(code, reason);
-          this.dispatchEvent(
-            new ErrorEvent("error", {
-              error: { code, reason },
-            }),
-          );
+          let code: number, reason: string;
+          try {
+            ({ code, reason } = decodeClosePayload(frame.payload));
+          } catch (error) {
+            this.fail(error as WebSocketError);
+            return;
+          }
+          if (this.readyState === 1) {
+            // Echo the code of the server to complete the close handshake.
+            this.readyState = 2;
+            await this.enqueue({
+              isLastFrame: true,
+              opcode: OpCode.Close,
+              payload: encodeClosePayload(code === 1005 ? undefined : code),
+            }).catch(() => {});
+          }
+          this.finishClose(code, reason, true);
           return;
         }
 
         case OpCode.Ping:
-          await this.enqueue({
-            opcode: OpCode.Pong,
-            payload: frame.payload,
-            isLastFrame: true,
-          });
+          if (this.readyState === 1) {
+            await this.enqueue({
+              opcode: OpCode.Pong,
+              payload: frame.payload,
+              isLastFrame: true,
+            }).catch(() => {});
+          }
 
           this.dispatchEvent(new MessageEvent("ping", { data: frame.payload }));
           break;
@@ -163,76 +295,127 @@ export default class WS extends EventTarget {
   }
 
   /**
-   * Set event listener for the close event
+   * Set event listener for the close event, replacing the previous one
    */
   set onclose(listener: (ev: CloseEvent) => unknown) {
-    this.addEventListener(
-      "close",
-      ((event: CloseEvent) => listener(event)) as EventListener,
-    );
+    this.setListener("close", listener as (ev: Event) => unknown);
   }
 
   /**
-   * Set event listener for the message event
+   * Set event listener for the message event, replacing the previous one
    */
   set onmessage(listener: (ev: MessageEvent) => unknown) {
-    this.addEventListener(
-      "message",
-      ((event: MessageEvent) => listener(event)) as EventListener,
-    );
+    this.setListener("message", listener as (ev: Event) => unknown);
   }
 
   /**
-   * Set event listener for the error event
+   * Set event listener for the error event, replacing the previous one
    */
   set onerror(listener: (ev: ErrorEvent) => unknown) {
-    this.addEventListener(
-      "error",
-      ((event: ErrorEvent) => listener(event)) as EventListener,
-    );
+    this.setListener("error", listener as (ev: Event) => unknown);
   }
 
   /**
-   * Set event listener for the open event
+   * Set event listener for the open event, replacing the previous one
    */
   set onopen(listener: (ev: Event) => unknown) {
-    this.addEventListener(
-      "open",
-      ((event: Event) => listener(event)) as EventListener,
-    );
+    this.setListener("open", listener);
+  }
+
+  private setListener(type: string, listener: (ev: Event) => unknown) {
+    const previous = this.listeners[type];
+    if (previous) this.removeEventListener(type, previous);
+    const wrapped = (event: Event) => listener(event);
+    this.listeners[type] = wrapped;
+    this.addEventListener(type, wrapped);
   }
 
-  private ensureClosed() {
+  /**
+   * Fail the connection, sending a Close frame with the code of the error
+   * without waiting for the answer of the server.
+   * @param error - The error failing the connection.
+   */
+  private fail(error: WebSocketError) {
+    this.dispatchEvent(new ErrorEvent("error", { error }));
+    if (this.readyState !== 1) {
+      this.finishClose(error.code, error.message, false);
+      return;
+    }
+    this.readyState = 2;
+    this.enqueue({
+      isLastFrame: true,
+      opcode: OpCode.Close,
+      payload: encodeClosePayload(error.code, error.message),
+    }).catch(() => {}).then(() => {
+      this.finishClose(error.code, error.message, false);
+    });
+  }
+
+  /**
+   * Close the connection and dispatch the close event, once.
+   * @param code - The close code to report.
+   * @param reason - The close reason to report.
+   * @param wasClean - Whether the close handshake completed.
+   */
+  private finishClose(code: number, reason: string, wasClean: boolean) {
+    if (this._isClosed) return;
+    this._isClosed = true;
+    this.readyState = 3;
+    clearTimeout(this.closeTimer);
+    this.deflate?.close();
     try {
-      this.conn.close();
-    } catch (error) {
-      this.dispatchEvent(new ErrorEvent("error", { error }));
-    } finally {
-      this._isClosed = true;
-      this.readyState = 3;
-      this.dispatchEvent(new CloseEvent("close"));
+      this.conn?.close();
+    } catch {
+      // The connection was already closed by the server.
     }
+    this.dispatchEvent(new CloseEvent("close", { code, reason, wasClean }));
+    this.resolveClosed();
   }
 
   private dequeue() {
     const [entry] = this.queue;
     if (!entry || this._isClosed) return;
-    const { d, frame } = entry;
+    const { resolve, reject, frame } = entry;
 
-    writeFrame(frame, this.writer).then(d.resolve, d.reject).finally(() => {
+    this.compress(frame).then(async (frame) => {
+      for (const fragment of fragmentFrame(frame, this.fragmentSize)) {
+        // Every frame sent by a client is masked with a fresh key.
+        await writeFrame({ ...fragment, mask: createMask() }, this.conn);
+      }
+    }).then(resolve, reject).finally(() => {
       this.queue.shift();
       this.dequeue();
     });
   }
 
+  /**
+   * Compress a message frame with permessage-deflate, if it was negotiated and
+   * the message reaches the threshold.
+   * @param frame - The frame.
+   */
+  private async compress(frame: WebSocketFrame): Promise<WebSocketFrame> {
+    const { deflate } = this;
+    if (
+      !deflate || isControlFrame(frame.opcode) ||
+      frame.payload.length < deflate.threshold
+    ) {
+      return frame;
+    }
+    return {
+      ...frame,
+      payload: await deflate.compress(frame.payload),
+      rsv1: true,
+    };
+  }
+
   private enqueue(frame: WebSocketFrame): Promise<void> {
     if (this._isClosed) {
       throw new Deno.errors.ConnectionReset("Socket has already been closed!");
     }
-    const d = deferred<void>();
-    this.queue.push({ d, frame });
-    if (this.queue.length == 1) this.dequeue();
-    return d;
+    return new Promise((resolve, reject) => {
+      this.queue.push({ frame, resolve, reject });
+      if (this.queue.length == 1) this.dequeue();
+    });
   }
 
   /**
@@ -242,11 +425,13 @@ export default class WS extends EventTarget {
    * @example await ws.send("Hello world");
    */
   send(data: WebSocketMessage): Promise<void> {
+    if (this.readyState !== 1) {
+      throw new Deno.errors.ConnectionReset("Socket isn't open!");
+    }
     return this.enqueue({
       isLastFrame: true,
       opcode: typeof data == "string" ? OpCode.TextFrame : OpCode.BinaryFrame,
       payload: typeof data == "string" ? new TextEncoder().encode(data) : data,
-      mask: this.mask,
     });
   }
 
@@ -257,47 +442,58 @@ export default class WS extends EventTarget {
    * @example await ws.ping("Hello world");
    */
   ping(data: WebSocketMessage): Promise<void> {
+    if (this.readyState !== 1) {
+      throw new Deno.errors.ConnectionReset("Socket isn't open!");
+    }
     return this.enqueue({
       isLastFrame: true,
       opcode: OpCode.Ping,
       payload: typeof data == "string" ? new TextEncoder().encode(data) : data,
-      mask: this.mask,
     });
   }
 
   /**
-   * Close the socket connection.
+   * Close the socket connection with the close handshake. Resolves once the
+   * server answered the Close frame, or the close timeout dropped the
+   * connection. Closing while connecting cancels the connection.
    *
-   * @param code The code to be used to close.the socket connection.
-   * @param reason The reason for the socket to be closed.
+   * @param code The code to be used to close the socket connection.
+   * @param reason The reason for the socket to be closed, at most 123 bytes.
    * @example await ws.close();
    */
-  async close(code = 100, reason?: string): Promise<void> {
-    if (this._isClosed) return;
+  close(code = 1000, reason = ""): Promise<void> {
+    if (!isValidCloseCode(code)) {
+      return Promise.reject(new RangeError(`WS: Invalid close code ${code}`));
+    }
+    const payload = encodeClosePayload(code, reason);
+    if (payload.length > 125) {
+      return Promise.reject(
+        new RangeError("WS: Close reason longer than 123 bytes"),
+      );
+    }
 
-    try {
-      const header = [code >>> 8, code & 0x00ff];
-      let payload: Uint8Array;
-
-      if (reason) {
-        payload = new Uint8Array(header);
-        const reasonBytes = new TextEncoder().encode(reason);
-        payload = new Uint8Array(2 + reasonBytes.byteLength);
-        payload.set(header);
-        payload.set(reasonBytes, 2);
-      } else payload = new Uint8Array(header);
-
-      await this.enqueue({
-        isLastFrame: true,
-        opcode: OpCode.Close,
-        mask: this.mask,
-        payload,
-      });
-    } catch (e) {
-      throw e;
-    } finally {
-      this.ensureClosed();
+    if (this.readyState === 0) {
+      this.connecting.abort();
+    } else if (this.readyState === 1) {
+      this.readyState = 2;
+      this.closeTimer = setTimeout(() => {
+        this.finishClose(1006, "", false);
+      }, this.closeTimeout);
+      this.enqueue({ isLastFrame: true, opcode: OpCode.Close, payload })
+        .catch(() => this.finishClose(1006, "", false));
     }
+    return this.closedPromise;
+  }
+
+  /**
+   * The amount of bytes of queued messages which haven't been written yet,
+   * including the message being written, before compression.
+   */
+  get bufferedAmount(): number {
+    return this.queue.reduce(
+      (amount, { frame }) => amount + frame.payload.length,
+      0,
+    );
   }
 
   /**
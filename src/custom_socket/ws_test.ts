@@ -0,0 +1,275 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  decodeClosePayload,
+  encodeClosePayload,
+  OpCode,
+  readFrame,
+  type WebSocketFrame,
+  writeFrame,
+} from "./frame.ts";
+import { createAcceptKey } from "./handshake.ts";
+import { ByteReader } from "./reader.ts";
+import WS from "./ws.ts";
+
+/**
+ * The server side of a test connection.
+ */
+interface Peer {
+  conn: Deno.Conn;
+  reader: ByteReader;
+}
+
+/**
+ * Accept one WebSocket connection and hand it to a script playing the server.
+ * @returns The URL to connect to and the promise of the script.
+ */
+function serve(script: (peer: Peer) => Promise<void>) {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const done = (async () => {
+    const conn = await listener.accept();
+    listener.close();
+    const reader = new ByteReader(conn);
+    let key = "";
+    for (
+      let line = await reader.readLine();
+      line;
+      line = await reader.readLine()
+    ) {
+      key = line.match(/^sec-websocket-key: (.*)$/i)?.[1] ?? key;
+    }
+    await conn.write(new TextEncoder().encode(
+      "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${await createAcceptKey(key)}\r\n\r\n`,
+    ));
+    try {
+      await script({ conn, reader });
+    } finally {
+      try {
+        conn.close();
+      } catch {
+        // Closed by the script.
+      }
+    }
+  })();
+  return { url: `ws://127.0.0.1:${listener.addr.port}/`, done };
+}
+
+/**
+ * Write an unmasked frame from the server.
+ */
+function send(peer: Peer, opcode: OpCode, payload: Uint8Array) {
+  return writeFrame({ isLastFrame: true, opcode, payload }, peer.conn);
+}
+
+/**
+ * Wait for the next event of a type.
+ */
+function next<T extends Event>(ws: WS, type: string): Promise<T> {
+  return new Promise((resolve) => {
+    ws.addEventListener(type, (event) => resolve(event as T), { once: true });
+  });
+}
+
+Deno.test("close performs the close handshake with 1000", async () => {
+  let received: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    received = await readFrame(peer.reader);
+    await send(peer, OpCode.Close, received.payload);
+  });
+  const ws = new WS(url);
+  await next(ws, "open");
+  const closed = next<CloseEvent>(ws, "close");
+  await ws.close();
+  const event = await closed;
+  await done;
+
+  assertEquals(received?.opcode, OpCode.Close);
+  assertEquals(decodeClosePayload(received!.payload), {
+    code: 1000,
+    reason: "",
+  });
+  assertEquals([event.code, event.reason, event.wasClean], [1000, "", true]);
+  assertEquals(ws.readyState, 3);
+});
+
+Deno.test("close echoes the code of the server", async () => {
+  let echoed: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    await send(peer, OpCode.Close, encodeClosePayload(4001, "going away"));
+    echoed = await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals(decodeClosePayload(echoed!.payload).code, 4001);
+  assertEquals([event.code, event.reason, event.wasClean], [
+    4001,
+    "going away",
+    true,
+  ]);
+});
+
+Deno.test("close reports 1005 for a Close frame without a code", async () => {
+  let echoed: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    await send(peer, OpCode.Close, new Uint8Array(0));
+    echoed = await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals(echoed!.payload.length, 0);
+  assertEquals(event.code, 1005);
+});
+
+Deno.test("close drops the connection after the close timeout", async () => {
+  const { url, done } = serve(async (peer) => {
+    await readFrame(peer.reader);
+    // Never answer, wait for the client to drop the connection.
+    await peer.reader.readFull(1).catch(() => {});
+  });
+  const ws = new WS(url, { headers: {}, closeTimeout: 50 });
+  await next(ws, "open");
+  const closed = next<CloseEvent>(ws, "close");
+  await ws.close(3000, "bye");
+  const event = await closed;
+  await done;
+
+  assertEquals([event.code, event.wasClean], [1006, false]);
+});
+
+Deno.test("invalid UTF-8 in a text message closes with 1007", async () => {
+  let received: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    await send(peer, OpCode.TextFrame, new Uint8Array([0xc3, 0x28]));
+    received = await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  const error = next<ErrorEvent>(ws, "error");
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals(decodeClosePayload(received!.payload).code, 1007);
+  assertEquals((await error).error.code, 1007);
+  assertEquals([event.code, event.wasClean], [1007, false]);
+});
+
+Deno.test("protocol violations close with 1002", async () => {
+  let received: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    await send(peer, OpCode.Continue, new Uint8Array(1));
+    received = await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals(decodeClosePayload(received!.payload).code, 1002);
+  assertEquals(event.code, 1002);
+});
+
+Deno.test("a dropped connection closes with 1006", async () => {
+  const { url, done } = serve(() => Promise.resolve());
+  const ws = new WS(url);
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals([event.code, event.wasClean], [1006, false]);
+});
+
+Deno.test("event handler properties replace the previous handler", async () => {
+  const { url, done } = serve(async (peer) => {
+    await send(peer, OpCode.TextFrame, new TextEncoder().encode("hi"));
+    await send(peer, OpCode.Close, encodeClosePayload(1000));
+    await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  const calls: string[] = [];
+  ws.onmessage = () => calls.push("first");
+  ws.onmessage = (event) => calls.push(event.data);
+  await next(ws, "close");
+  await done;
+
+  assertEquals(calls, ["hi"]);
+});
+
+Deno.test("messages over maxMessageSize close with 1009", async () => {
+  let received: WebSocketFrame | undefined;
+  const { url, done } = serve(async (peer) => {
+    const payload = new TextEncoder().encode("abcd");
+    await writeFrame(
+      { isLastFrame: false, opcode: OpCode.TextFrame, payload },
+      peer.conn,
+    );
+    await writeFrame(
+      { isLastFrame: false, opcode: OpCode.Continue, payload },
+      peer.conn,
+    );
+    await writeFrame(
+      { isLastFrame: true, opcode: OpCode.Continue, payload },
+      peer.conn,
+    );
+    received = await readFrame(peer.reader);
+  });
+  const ws = new WS(url, { headers: {}, maxMessageSize: 10 });
+  const messages: unknown[] = [];
+  ws.onmessage = (event) => messages.push(event.data);
+  const event = await next<CloseEvent>(ws, "close");
+  await done;
+
+  assertEquals(messages, []);
+  assertEquals(decodeClosePayload(received!.payload).code, 1009);
+  assertEquals(event.code, 1009);
+});
+
+Deno.test("fragmentSize splits outgoing messages", async () => {
+  const frames: WebSocketFrame[] = [];
+  const { url, done } = serve(async (peer) => {
+    let frame;
+    do {
+      frame = await readFrame(peer.reader);
+      frames.push(frame);
+    } while (!frame.isLastFrame);
+    await send(peer, OpCode.Close, encodeClosePayload(1000));
+    await readFrame(peer.reader);
+  });
+  const ws = new WS(url, { headers: {}, fragmentSize: 4 });
+  await next(ws, "open");
+  await ws.send("HelloWorld!");
+  await next(ws, "close");
+  await done;
+
+  assertEquals(
+    frames.map(({ isLastFrame, opcode, payload }) => [
+      isLastFrame,
+      opcode,
+      new TextDecoder().decode(payload),
+    ]),
+    [
+      [false, OpCode.TextFrame, "Hell"],
+      [false, OpCode.Continue, "oWor"],
+      [true, OpCode.Continue, "ld!"],
+    ],
+  );
+});
+
+Deno.test("bufferedAmount counts the queued messages", async () => {
+  const { url, done } = serve(async (peer) => {
+    await readFrame(peer.reader);
+    await readFrame(peer.reader);
+    await send(peer, OpCode.Close, encodeClosePayload(1000));
+    await readFrame(peer.reader);
+  });
+  const ws = new WS(url);
+  await next(ws, "open");
+  assertEquals(ws.bufferedAmount, 0);
+  const sent = [ws.send("Hello"), ws.send(new Uint8Array(100))];
+  assertEquals(ws.bufferedAmount, 105);
+  await Promise.all(sent);
+  assertEquals(ws.bufferedAmount, 0);
+  await next(ws, "close");
+  await done;
+});
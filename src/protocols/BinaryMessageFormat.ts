@@ -0,0 +1,63 @@
+/**
+ * Length-prefixed framing of binary messages, with the length as a VarInt.
+ */
+export class BinaryMessageFormat {
+  /**
+   * Prefix a message with its length.
+   * @param message - The message.
+   */
+  public static write(message: Uint8Array): Uint8Array {
+    const lengthPrefix: number[] = [];
+    let size = message.byteLength;
+    do {
+      let sizePart = size & 0x7f;
+      size = size >>> 7;
+      if (size > 0) sizePart |= 0x80;
+      lengthPrefix.push(sizePart);
+    } while (size > 0);
+
+    const output = new Uint8Array(lengthPrefix.length + message.byteLength);
+    output.set(lengthPrefix);
+    output.set(message, lengthPrefix.length);
+    return output;
+  }
+
+  /**
+   * Split the messages of a frame.
+   * @param input - The frame data.
+   */
+  public static parse(input: Uint8Array): Uint8Array[] {
+    const messages: Uint8Array[] = [];
+    const maxLengthPrefixSize = 5;
+    let offset = 0;
+
+    while (offset < input.byteLength) {
+      let size = 0;
+      let numBitsToShift = 0;
+      let byteRead: number;
+      let prefixLength = 0;
+      do {
+        if (prefixLength >= maxLengthPrefixSize) {
+          throw new Error("Messages bigger than 2GB are not supported.");
+        }
+        if (offset + prefixLength >= input.byteLength) {
+          throw new Error("Cannot read message size.");
+        }
+        byteRead = input[offset + prefixLength];
+        size |= (byteRead & 0x7f) << numBitsToShift;
+        numBitsToShift += 7;
+        prefixLength++;
+      } while (byteRead & 0x80);
+      size = size >>> 0;
+
+      const start = offset + prefixLength;
+      if (start + size > input.byteLength) {
+        throw new Error("Incomplete message.");
+      }
+      messages.push(input.subarray(start, start + size));
+      offset = start + size;
+    }
+
+    return messages;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { BinaryMessageFormat } from "./BinaryMessageFormat.ts";
+
+/**
+ * Concatenate byte arrays.
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((length, part) => length + part.byteLength, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+  return output;
+}
+
+Deno.test("write prefixes the length as a VarInt", () => {
+  const cases: [number, number[]][] = [
+    [0, [0x00]],
+    [1, [0x01]],
+    [0x7f, [0x7f]],
+    [0x80, [0x80, 0x01]],
+    [0x3fff, [0xff, 0x7f]],
+    [0x4000, [0x80, 0x80, 0x01]],
+  ];
+  for (const [length, prefix] of cases) {
+    const message = new Uint8Array(length).fill(0x2a);
+    const frame = BinaryMessageFormat.write(message);
+    assertEquals([...frame.subarray(0, prefix.length)], prefix);
+    assertEquals(frame.subarray(prefix.length), message);
+  }
+});
+
+Deno.test("parse reads multi-byte length prefixes", () => {
+  const message = new Uint8Array(0x4000).fill(0x2a);
+  const [parsed] = BinaryMessageFormat.parse(
+    concat(new Uint8Array([0x80, 0x80, 0x01]), message),
+  );
+  assertEquals(parsed, message);
+});
+
+Deno.test("parse splits the messages of a frame", () => {
+  const messages = [
+    new Uint8Array([0x01, 0x02]),
+    new Uint8Array(),
+    new Uint8Array(200).fill(0x03),
+  ];
+  const frame = concat(...messages.map(BinaryMessageFormat.write));
+  assertEquals(BinaryMessageFormat.parse(frame), messages);
+});
+
+Deno.test("parse rejects partial frames", () => {
+  const frame = BinaryMessageFormat.write(new Uint8Array(200));
+  assertThrows(
+    () => BinaryMessageFormat.parse(frame.subarray(0, 1)),
+    Error,
+    "Cannot read message size.",
+  );
+  assertThrows(
+    () => BinaryMessageFormat.parse(frame.subarray(0, 100)),
+    Error,
+    "Incomplete message.",
+  );
+  assertThrows(
+    () =>
+      BinaryMessageFormat.parse(new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80])),
+    Error,
+    "Messages bigger than 2GB are not supported.",
+  );
+});
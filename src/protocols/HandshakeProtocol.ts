@@ -0,0 +1,60 @@
+import type { HubProtocol } from "./HubProtocol.ts";
+import { TextMessageFormat } from "./TextMessageFormat.ts";
+
+/**
+ * The handshake response sent by the server.
+ */
+export interface HandshakeResponse {
+  /**
+   * The error message, when the handshake failed.
+   */
+  error?: string;
+  /**
+   * The minor version of the protocol.
+   */
+  minorVersion?: number;
+}
+
+/**
+ * Reads and writes the handshake which selects the hub protocol.
+ */
+export class HandshakeProtocol {
+  /**
+   * Write the handshake request for a hub protocol.
+   * @param protocol - The hub protocol to request.
+   */
+  public static writeHandshakeRequest(protocol: HubProtocol): string {
+    return TextMessageFormat.write(JSON.stringify({
+      protocol: protocol.name,
+      version: protocol.version,
+    }));
+  }
+
+  /**
+   * Parse the handshake response at the start of a frame.
+   * Returns the response and any hub messages sent after it in the same frame.
+   * @param data - The frame data.
+   */
+  public static parseHandshakeResponse(
+    data: string | Uint8Array,
+  ): [HandshakeResponse, string | Uint8Array | undefined] {
+    let response: string;
+    let remaining: string | Uint8Array | undefined;
+
+    if (typeof data === "string") {
+      const index = data.indexOf(TextMessageFormat.recordSeparator);
+      if (index === -1) throw new Error("Message is incomplete.");
+      response = data.slice(0, index);
+      if (index + 1 < data.length) remaining = data.slice(index + 1);
+    } else {
+      const index = data.indexOf(
+        TextMessageFormat.recordSeparator.charCodeAt(0),
+      );
+      if (index === -1) throw new Error("Message is incomplete.");
+      response = new TextDecoder().decode(data.subarray(0, index));
+      if (index + 1 < data.length) remaining = data.subarray(index + 1);
+    }
+
+    return [JSON.parse(response) as HandshakeResponse, remaining];
+  }
+}
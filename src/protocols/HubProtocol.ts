@@ -0,0 +1,165 @@
+/**
+ * ASP.NET Core SignalR hub message types.
+ */
+export enum MessageType {
+  invocation = 1,
+  streamItem = 2,
+  completion = 3,
+  streamInvocation = 4,
+  cancelInvocation = 5,
+  ping = 6,
+  close = 7,
+}
+
+/**
+ * Invocation of a hub method, or of a client method by the server.
+ */
+export interface InvocationMessage {
+  type: MessageType.invocation;
+  /**
+   * The invocation ID, omitted when no result is expected.
+   */
+  invocationId?: string;
+  /**
+   * The method name.
+   */
+  target: string;
+  /**
+   * The method arguments.
+   */
+  arguments: unknown[];
+  /**
+   * The IDs of the streams sent as arguments.
+   */
+  streamIds?: string[];
+}
+
+/**
+ * Invocation of a hub method which streams its results.
+ */
+export interface StreamInvocationMessage {
+  type: MessageType.streamInvocation;
+  /**
+   * The invocation ID.
+   */
+  invocationId: string;
+  /**
+   * The method name.
+   */
+  target: string;
+  /**
+   * The method arguments.
+   */
+  arguments: unknown[];
+  /**
+   * The IDs of the streams sent as arguments.
+   */
+  streamIds?: string[];
+}
+
+/**
+ * A single item of a stream.
+ */
+export interface StreamItemMessage {
+  type: MessageType.streamItem;
+  /**
+   * The invocation ID of the stream.
+   */
+  invocationId: string;
+  /**
+   * The stream item.
+   */
+  item: unknown;
+}
+
+/**
+ * Completion of an invocation or stream.
+ */
+export interface CompletionMessage {
+  type: MessageType.completion;
+  /**
+   * The invocation ID.
+   */
+  invocationId: string;
+  /**
+   * The result of the invocation.
+   */
+  result?: unknown;
+  /**
+   * The error message, when the invocation failed.
+   */
+  error?: string;
+}
+
+/**
+ * Cancellation of a streaming invocation.
+ */
+export interface CancelInvocationMessage {
+  type: MessageType.cancelInvocation;
+  /**
+   * The invocation ID.
+   */
+  invocationId: string;
+}
+
+/**
+ * Keep-alive message.
+ */
+export interface PingMessage {
+  type: MessageType.ping;
+}
+
+/**
+ * Message sent by the server when it closes the connection.
+ */
+export interface CloseMessage {
+  type: MessageType.close;
+  /**
+   * The error which caused the connection to close.
+   */
+  error?: string;
+  /**
+   * Whether the client may reconnect.
+   */
+  allowReconnect?: boolean;
+}
+
+/**
+ * Any ASP.NET Core SignalR hub message.
+ */
+export type HubProtocolMessage =
+  | InvocationMessage
+  | StreamInvocationMessage
+  | StreamItemMessage
+  | CompletionMessage
+  | CancelInvocationMessage
+  | PingMessage
+  | CloseMessage;
+
+/**
+ * A hub protocol which reads and writes ASP.NET Core SignalR hub messages.
+ */
+export interface HubProtocol {
+  /**
+   * The protocol name sent in the handshake.
+   */
+  readonly name: string;
+  /**
+   * The protocol version sent in the handshake.
+   */
+  readonly version: number;
+  /**
+   * The transfer format the protocol needs from the transport.
+   */
+  readonly transferFormat: "Text" | "Binary";
+  /**
+   * Parse all the hub messages in a frame.
+   * @param data - The frame data.
+   */
+  parseMessages(data: string | Uint8Array): HubProtocolMessage[];
+  /**
+   * Write a hub message into a frame.
+   * @param message - The hub message.
+   */
+  writeMessage(message: HubProtocolMessage): string | Uint8Array;
+}
@@ -0,0 +1,33 @@
+import type { HubProtocol, HubProtocolMessage } from "./HubProtocol.ts";
+import { TextMessageFormat } from "./TextMessageFormat.ts";
+
+/**
+ * The JSON hub protocol, framing messages with a record separator.
+ */
+export class JsonHubProtocol implements HubProtocol {
+  public readonly name = "json";
+  public readonly version = 1;
+  public readonly transferFormat = "Text";
+
+  /**
+   * Parse all the hub messages in a frame.
+   * @param data - The frame data.
+   */
+  public parseMessages(data: string | Uint8Array): HubProtocolMessage[] {
+    const input = typeof data === "string"
+      ? data
+      : new TextDecoder().decode(data);
+    if (!input) return [];
+    return TextMessageFormat.parse(input).map((message) =>
+      JSON.parse(message) as HubProtocolMessage
+    );
+  }
+
+  /**
+   * Write a hub message into a frame.
+   * @param message - The hub message.
+   */
+  public writeMessage(message: HubProtocolMessage): string {
+    return TextMessageFormat.write(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { JsonHubProtocol } from "./JsonHubProtocol.ts";
+import { type HubProtocolMessage, MessageType } from "./HubProtocol.ts";
+
+const protocol = new JsonHubProtocol();
+
+const messages: HubProtocolMessage[] = [
+  {
+    type: MessageType.invocation,
+    invocationId: "0",
+    target: "send",
+    arguments: ["hi", 1],
+    streamIds: ["1"],
+  },
+  { type: MessageType.invocation, target: "message", arguments: [] },
+  {
+    type: MessageType.streamInvocation,
+    invocationId: "2",
+    target: "counter",
+    arguments: [10],
+  },
+  { type: MessageType.streamItem, invocationId: "2", item: { count: 1 } },
+  { type: MessageType.completion, invocationId: "0", result: "sent" },
+  { type: MessageType.completion, invocationId: "1", error: "Muted" },
+  { type: MessageType.completion, invocationId: "2" },
+  { type: MessageType.cancelInvocation, invocationId: "2" },
+  { type: MessageType.ping },
+  { type: MessageType.close, error: "Shutting down", allowReconnect: true },
+];
+
+Deno.test("json messages round-trip", () => {
+  for (const message of messages) {
+    assertEquals(
+      protocol.parseMessages(protocol.writeMessage(message)),
+      [message],
+    );
+  }
+});
+
+Deno.test("json frames are terminated by the record separator", () => {
+  assertEquals(
+    protocol.writeMessage({ type: MessageType.ping }),
+    '{"type":6}\u001e',
+  );
+  assertEquals(
+    protocol.parseMessages(
+      '{"type":6}\u001e{"type":3,"invocationId":"0","result":1}\u001e',
+    ),
+    [
+      { type: MessageType.ping },
+      { type: MessageType.completion, invocationId: "0", result: 1 },
+    ],
+  );
+  assertEquals(
+    protocol.parseMessages(new TextEncoder().encode('{"type":6}\u001e')),
+    [{ type: MessageType.ping }],
+  );
+  assertEquals(protocol.parseMessages(""), []);
+  assertThrows(
+    () => protocol.parseMessages('{"type":6}'),
+    Error,
+    "Message is incomplete.",
+  );
+});
@@ -0,0 +1,175 @@
+import {
+  decodeMessagePack,
+  encodeMessagePack,
+  type MessagePackValue,
+} from "../../deps.ts";
+import {
+  type HubProtocol,
+  type HubProtocolMessage,
+  MessageType,
+} from "./HubProtocol.ts";
+import { BinaryMessageFormat } from "./BinaryMessageFormat.ts";
+
+/**
+ * The kinds of result a completion message can carry.
+ */
+enum ResultKind {
+  error = 1,
+  void = 2,
+  nonVoid = 3,
+}
+
+/**
+ * The MessagePack hub protocol, framing messages with a length prefix.
+ */
+export class MessagePackHubProtocol implements HubProtocol {
+  public readonly name = "messagepack";
+  public readonly version = 1;
+  public readonly transferFormat = "Binary";
+
+  /**
+   * Parse all the hub messages in a frame.
+   * @param data - The frame data.
+   */
+  public parseMessages(data: string | Uint8Array): HubProtocolMessage[] {
+    if (typeof data === "string") {
+      throw new Error(
+        "Invalid input for MessagePack hub protocol. Expected an Uint8Array.",
+      );
+    }
+    const messages: HubProtocolMessage[] = [];
+    for (const message of BinaryMessageFormat.parse(data)) {
+      const parsed = this._parseMessage(decodeMessagePack(message));
+      if (parsed) messages.push(parsed);
+    }
+    return messages;
+  }
+
+  /**
+   * Write a hub message into a frame.
+   * @param message - The hub message.
+   */
+  public writeMessage(message: HubProtocolMessage): Uint8Array {
+    return BinaryMessageFormat.write(
+      encodeMessagePack(this._toValue(this._serializeMessage(message))),
+    );
+  }
+
+  /**
+   * Convert a decoded MessagePack array to a hub message.
+   * Unknown message types are ignored.
+   * @param value - The decoded value.
+   */
+  public _parseMessage(value: MessagePackValue): HubProtocolMessage | null {
+    if (!Array.isArray(value) || !value.length) {
+      throw new Error("Invalid payload.");
+    }
+    const properties = value as unknown[];
+
+    switch (properties[0]) {
+      case MessageType.invocation:
+        return {
+          type: MessageType.invocation,
+          invocationId: (properties[2] as string | null) ?? undefined,
+          target: properties[3] as string,
+          arguments: properties[4] as unknown[],
+          streamIds: (properties[5] as string[] | undefined) ?? undefined,
+        };
+      case MessageType.streamItem:
+        return {
+          type: MessageType.streamItem,
+          invocationId: properties[2] as string,
+          item: properties[3],
+        };
+      case MessageType.completion: {
+        const resultKind = properties[3] as ResultKind;
+        return {
+          type: MessageType.completion,
+          invocationId: properties[2] as string,
+          error: resultKind === ResultKind.error
+            ? properties[4] as string
+            : undefined,
+          result: resultKind === ResultKind.nonVoid ? properties[4] : undefined,
+        };
+      }
+      case MessageType.ping:
+        return { type: MessageType.ping };
+      case MessageType.close:
+        return {
+          type: MessageType.close,
+          error: (properties[1] as string | null) ?? undefined,
+          allowReconnect: (properties[2] as boolean | undefined) ?? undefined,
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convert a hub message to its MessagePack array.
+   * @param message - The hub message.
+   */
+  public _serializeMessage(message: HubProtocolMessage): unknown[] {
+    switch (message.type) {
+      case MessageType.invocation:
+      case MessageType.streamInvocation: {
+        const properties: unknown[] = [
+          message.type,
+          {},
+          message.invocationId ?? null,
+          message.target,
+          message.arguments,
+        ];
+        if (message.streamIds) properties.push(message.streamIds);
+        return properties;
+      }
+      case MessageType.streamItem:
+        return [message.type, {}, message.invocationId, message.item];
+      case MessageType.completion:
+        if (message.error !== undefined) {
+          return [
+            message.type,
+            {},
+            message.invocationId,
+            ResultKind.error,
+            message.error,
+          ];
+        } else if (message.result !== undefined) {
+          return [
+            message.type,
+            {},
+            message.invocationId,
+            ResultKind.nonVoid,
+            message.result,
+          ];
+        }
+        return [message.type, {}, message.invocationId, ResultKind.void];
+      case MessageType.cancelInvocation:
+        return [message.type, {}, message.invocationId];
+      case MessageType.ping:
+        return [message.type];
+      case MessageType.close:
+        return [message.type, message.error ?? null, !!message.allowReconnect];
+    }
+  }
+
+  /**
+   * Replace the values MessagePack can't encode, such as `undefined`.
+   * @param value - The value to encode.
+   */
+  public _toValue(value: unknown): MessagePackValue {
+    if (value === undefined) return null;
+    if (Array.isArray(value)) return value.map((item) => this._toValue(item));
+    if (value instanceof Date) return value.toISOString();
+    if (
+      value && typeof value === "object" && !ArrayBuffer.isView(value)
+    ) {
+      const object: Record<string, MessagePackValue> = {};
+      for (const [key, item] of Object.entries(value)) {
+        if (item !== undefined) object[key] = this._toValue(item);
+      }
+      return object;
+    }
+    return value as MessagePackValue;
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { MessagePackHubProtocol } from "./MessagePackHubProtocol.ts";
+import { type HubProtocolMessage, MessageType } from "./HubProtocol.ts";
+
+const protocol = new MessagePackHubProtocol();
+
+const text = (value: string) => [...new TextEncoder().encode(value)];
+
+/**
+ * Prefix the bytes of a message with its length.
+ */
+const frame = (...bytes: number[]) => new Uint8Array([bytes.length, ...bytes]);
+
+// Messages as written by ASP.NET Core, with the bytes of their frames.
+const fixtures: [HubProtocolMessage, Uint8Array][] = [
+  [
+    {
+      type: MessageType.invocation,
+      invocationId: undefined,
+      target: "message",
+      arguments: ["hi"],
+      streamIds: undefined,
+    },
+    // [1, {}, nil, "message", ["hi"]]
+    frame(
+      0x95,
+      0x01,
+      0x80,
+      0xc0,
+      0xa7,
+      ...text("message"),
+      0x91,
+      0xa2,
+      ...text("hi"),
+    ),
+  ],
+  [
+    { type: MessageType.streamItem, invocationId: "1", item: 42 },
+    // [2, {}, "1", 42]
+    frame(0x94, 0x02, 0x80, 0xa1, ...text("1"), 0x2a),
+  ],
+  [
+    {
+      type: MessageType.completion,
+      invocationId: "1",
+      error: undefined,
+      result: "ok",
+    },
+    // [3, {}, "1", 3, "ok"]
+    frame(0x95, 0x03, 0x80, 0xa1, ...text("1"), 0x03, 0xa2, ...text("ok")),
+  ],
+  [
+    {
+      type: MessageType.completion,
+      invocationId: "1",
+      error: "Muted",
+      result: undefined,
+    },
+    // [3, {}, "1", 1, "Muted"]
+    frame(0x95, 0x03, 0x80, 0xa1, ...text("1"), 0x01, 0xa5, ...text("Muted")),
+  ],
+  [
+    {
+      type: MessageType.completion,
+      invocationId: "1",
+      error: undefined,
+      result: undefined,
+    },
+    // [3, {}, "1", 2]
+    frame(0x94, 0x03, 0x80, 0xa1, ...text("1"), 0x02),
+  ],
+  [
+    { type: MessageType.ping },
+    // [6]
+    frame(0x91, 0x06),
+  ],
+  [
+    { type: MessageType.close, error: "Bye", allowReconnect: true },
+    // [7, "Bye", true]
+    frame(0x93, 0x07, 0xa3, ...text("Bye"), 0xc3),
+  ],
+];
+
+Deno.test("messagepack messages are written as ASP.NET Core writes them", () => {
+  for (const [message, bytes] of fixtures) {
+    assertEquals(protocol.writeMessage(message), bytes);
+  }
+});
+
+Deno.test("messagepack messages are parsed from ASP.NET Core frames", () => {
+  for (const [message, bytes] of fixtures) {
+    assertEquals(protocol.parseMessages(bytes), [message]);
+  }
+});
+
+Deno.test("messagepack frames with several messages are split", () => {
+  const [[ping, pingBytes], [close, closeBytes]] = fixtures.slice(-2);
+  assertEquals(
+    protocol.parseMessages(new Uint8Array([...pingBytes, ...closeBytes])),
+    [ping, close],
+  );
+});
+
+Deno.test("messagepack writes client-to-server messages", () => {
+  assertEquals(
+    protocol.writeMessage({
+      type: MessageType.streamInvocation,
+      invocationId: "2",
+      target: "count",
+      arguments: [],
+      streamIds: ["3"],
+    }),
+    // [4, {}, "2", "count", [], ["3"]]
+    frame(
+      0x96,
+      0x04,
+      0x80,
+      0xa1,
+      ...text("2"),
+      0xa5,
+      ...text("count"),
+      0x90,
+      0x91,
+      0xa1,
+      ...text("3"),
+    ),
+  );
+  assertEquals(
+    protocol.writeMessage({
+      type: MessageType.cancelInvocation,
+      invocationId: "2",
+    }),
+    // [5, {}, "2"]
+    frame(0x93, 0x05, 0x80, 0xa1, ...text("2")),
+  );
+});
+
+Deno.test("messagepack replaces values it can't encode", () => {
+  const date = new Date(0);
+  const [message] = protocol.parseMessages(protocol.writeMessage({
+    type: MessageType.invocation,
+    invocationId: "0",
+    target: "send",
+    arguments: [undefined, { date, skipped: undefined }],
+  }));
+  assertEquals(message, {
+    type: MessageType.invocation,
+    invocationId: "0",
+    target: "send",
+    arguments: [null, { date: date.toISOString() }],
+    streamIds: undefined,
+  });
+});
+
+Deno.test("messagepack ignores unknown message types", () => {
+  assertEquals(protocol.parseMessages(frame(0x91, 0x63)), []);
+  assertThrows(
+    () => protocol.parseMessages("{}"),
+    Error,
+    "Expected an Uint8Array.",
+  );
+  assertThrows(
+    () => protocol.parseMessages(frame(0x90)),
+    Error,
+    "Invalid payload.",
+  );
+});
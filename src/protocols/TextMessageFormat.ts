@@ -0,0 +1,30 @@
+/**
+ * Record separator framing of text messages.
+ */
+export class TextMessageFormat {
+  /**
+   * The record separator which terminates every message.
+   */
+  public static recordSeparator = "\u001e";
+
+  /**
+   * Terminate a message with the record separator.
+   * @param message - The message.
+   */
+  public static write(message: string): string {
+    return `${message}${TextMessageFormat.recordSeparator}`;
+  }
+
+  /**
+   * Split the messages of a frame.
+   * @param input - The frame data.
+   */
+  public static parse(input: string): string[] {
+    if (!input.endsWith(TextMessageFormat.recordSeparator)) {
+      throw new Error("Message is incomplete.");
+    }
+    const messages = input.split(TextMessageFormat.recordSeparator);
+    messages.pop();
+    return messages;
+  }
+}
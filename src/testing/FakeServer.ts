@@ -0,0 +1,570 @@
+import { Evt } from "../../deps.ts";
+import type { HubMessageData, Message } from "../classes/Client.ts";
+
+/**
+ * The endpoints of the fake server.
+ */
+export type FakeEndpoint =
+  | "negotiate"
+  | "connect"
+  | "reconnect"
+  | "start"
+  | "abort";
+
+const endpoints: FakeEndpoint[] = [
+  "negotiate",
+  "connect",
+  "reconnect",
+  "start",
+  "abort",
+];
+
+/**
+ * A request received by the fake server.
+ */
+export interface FakeRequest {
+  /**
+   * The endpoint requested.
+   */
+  endpoint: FakeEndpoint;
+  /**
+   * The request URL.
+   */
+  url: URL;
+  /**
+   * The request method.
+   */
+  method: string;
+  /**
+   * The request headers.
+   */
+  headers: Headers;
+  /**
+   * The status the server responded with, 101 for WebSocket upgrades.
+   */
+  status: number;
+}
+
+/**
+ * A hub method of the fake server. The returned value, or the value it
+ * resolves to, is sent as the result. Throwing a `FakeHubError` sends a hub
+ * error, and throwing anything else sends a plain error.
+ */
+export type FakeHubMethod = (invocation: FakeInvocation) => unknown;
+
+/**
+ * Options for a fake server.
+ */
+export interface FakeServerOptions {
+  /**
+   * The hub methods by hub and method name. Names are case-insensitive.
+   */
+  hubs?: Record<string, Record<string, FakeHubMethod>>;
+  /**
+   * The keep-alive timeout sent in the negotiate response in seconds, or null
+   * to disable keep-alives. Default: 20
+   */
+  keepAliveTimeout?: number | null;
+  /**
+   * The interval of keep-alive messages in milliseconds, or false to never
+   * send any. Default: a third of the keep-alive timeout
+   */
+  keepAliveInterval?: number | false;
+  /**
+   * Statuses to respond with to the next requests of each endpoint, such as
+   * `{ negotiate: [401] }`, before responding normally again.
+   */
+  failures?: Partial<Record<FakeEndpoint, number[]>>;
+  /**
+   * The path of the SignalR endpoints. Default: "/signalr"
+   */
+  path?: string;
+}
+
+/**
+ * An error thrown by a hub method of the fake server, sent to the client as
+ * a `HubException`.
+ */
+export class FakeHubError extends Error {
+  /**
+   * The error data sent with the error.
+   */
+  public data?: unknown;
+
+  constructor(message: string, data?: unknown) {
+    super(message);
+    this.data = data;
+  }
+}
+
+/**
+ * A connection negotiated with the fake server, which outlives its sockets
+ * when the client reconnects.
+ */
+export class FakeConnection {
+  /**
+   * The connection ID.
+   */
+  public id: string;
+
+  /**
+   * The connection token.
+   */
+  public token: string;
+
+  /**
+   * The current WebSocket of the connection.
+   */
+  public socket?: WebSocket;
+
+  /**
+   * The ID of the latest message sent to the client.
+   */
+  public messageId = 0;
+
+  /**
+   * The setInterval instance ID for the keep-alive messages.
+   */
+  public _keepAliveTimer?: ReturnType<typeof setInterval>;
+
+  constructor(id: string) {
+    this.id = id;
+    this.token = `token-${id}`;
+  }
+
+  /**
+   * Send a raw message to the client, if it is connected.
+   * @param data - The message data.
+   */
+  public _send(data: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(data));
+    }
+  }
+
+  /**
+   * Invoke a client method of a hub.
+   * @param hub - The hub name.
+   * @param method - The client method name.
+   * @param args - The arguments.
+   */
+  public send(hub: string, method: string, ...args: unknown[]): void {
+    this._send({
+      C: String(++this.messageId),
+      M: [{ H: hub, M: method, A: args }],
+    });
+  }
+
+  /**
+   * Drop the current WebSocket, without sending a response to pending
+   * invocations.
+   */
+  public drop(): void {
+    clearInterval(this._keepAliveTimer);
+    if (this.socket && this.socket.readyState < WebSocket.CLOSING) {
+      this.socket.close(4000, "Dropped");
+    }
+  }
+}
+
+/**
+ * A hub method invocation received by the fake server.
+ */
+export class FakeInvocation {
+  /**
+   * The connection the invocation was received on.
+   */
+  public connection: FakeConnection;
+
+  /**
+   * The hub name.
+   */
+  public hub: string;
+
+  /**
+   * The method name.
+   */
+  public method: string;
+
+  /**
+   * The arguments.
+   */
+  public args: unknown[];
+
+  /**
+   * The invocation ID.
+   */
+  public invocationId: number | string;
+
+  /**
+   * The hub state sent with the invocation.
+   */
+  public state?: Record<string, unknown>;
+
+  private server: FakeServer;
+
+  constructor(
+    server: FakeServer,
+    connection: FakeConnection,
+    message: Message & { I: number | string },
+  ) {
+    this.server = server;
+    this.connection = connection;
+    this.hub = message.H ?? "";
+    this.method = message.M ?? "";
+    this.args = message.A ?? [];
+    this.invocationId = message.I;
+    this.state = message.S;
+  }
+
+  /**
+   * Report progress of the invocation.
+   * @param value - The progress value.
+   */
+  public progress(value: unknown): void {
+    this.connection._send({
+      I: `P|${this.invocationId}`,
+      P: { I: String(this.invocationId), D: value },
+    });
+  }
+
+  /**
+   * Wait before continuing, such as before returning a result. Never resolves
+   * if the server closes first.
+   * @param ms - The delay in milliseconds.
+   */
+  public delay(ms: number): Promise<void> {
+    return this.server._delay(ms);
+  }
+
+  /**
+   * Never respond to the invocation.
+   */
+  public noResponse(): Promise<never> {
+    return new Promise(() => {});
+  }
+
+  /**
+   * Drop the WebSocket the invocation was received on, without responding.
+   */
+  public drop(): Promise<never> {
+    this.connection.drop();
+    return this.noResponse();
+  }
+}
+
+/**
+ * A local SignalR 2 server speaking the classic protocol over WebSockets, with
+ * scripted hub methods and failures, for integration tests of clients.
+ * @example
+ * const server = new FakeServer({
+ *   hubs: { chat: { send: ({ args }) => `echo ${args[0]}` } },
+ *   failures: { start: [500] },
+ * });
+ * const client = new Client(server.url, ["chat"]);
+ * // ...
+ * await server.close();
+ */
+export class FakeServer extends Evt<
+  | ["request", FakeRequest]
+  | ["invocation", FakeInvocation]
+  | ["connected", FakeConnection]
+  | ["disconnected", FakeConnection]
+> {
+  /**
+   * The base URL to create clients with.
+   */
+  public url: string;
+
+  /**
+   * The hub methods by hub and method name.
+   */
+  public hubs: Record<string, Record<string, FakeHubMethod>>;
+
+  /**
+   * The keep-alive timeout sent in the negotiate response in seconds.
+   */
+  public keepAliveTimeout: number | null;
+
+  /**
+   * The interval of keep-alive messages in milliseconds.
+   */
+  public keepAliveInterval: number | false;
+
+  /**
+   * The requests received, in order.
+   */
+  public requests: FakeRequest[] = [];
+
+  /**
+   * The invocations received, in order.
+   */
+  public invocations: FakeInvocation[] = [];
+
+  /**
+   * The negotiated connections by connection token.
+   */
+  public connections: Record<string, FakeConnection> = {};
+
+  private path: string;
+
+  private failures: Partial<Record<FakeEndpoint, number[]>> = {};
+
+  private server: Deno.HttpServer<Deno.NetAddr>;
+
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  private connectionCount = 0;
+
+  /**
+   * Start a fake server on a free local port.
+   * @param options - The server options.
+   */
+  constructor(options: FakeServerOptions = {}) {
+    super();
+    this.hubs = options.hubs ?? {};
+    this.keepAliveTimeout = options.keepAliveTimeout === undefined
+      ? 20
+      : options.keepAliveTimeout;
+    this.keepAliveInterval = options.keepAliveInterval ??
+      (this.keepAliveTimeout ? this.keepAliveTimeout * 1000 / 3 : false);
+    this.path = options.path ?? "/signalr";
+    for (const [endpoint, statuses] of Object.entries(options.failures ?? {})) {
+      this.fail(endpoint as FakeEndpoint, ...statuses);
+    }
+    this.server = Deno.serve(
+      { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+      (request) => this._handle(request),
+    );
+    this.url = `http://127.0.0.1:${this.server.addr.port}${this.path}`;
+  }
+
+  /**
+   * Respond to the next requests of an endpoint with error statuses, such as
+   * 401 Unauthorized, before responding normally again.
+   * @param endpoint - The endpoint.
+   * @param statuses - The statuses, one for each request.
+   */
+  public fail(endpoint: FakeEndpoint, ...statuses: number[]): void {
+    (this.failures[endpoint] ??= []).push(...statuses);
+  }
+
+  /**
+   * Invoke a client method of a hub on every connected client.
+   * @param hub - The hub name.
+   * @param method - The client method name.
+   * @param args - The arguments.
+   */
+  public send(hub: string, method: string, ...args: unknown[]): void {
+    for (const connection of Object.values(this.connections)) {
+      connection.send(hub, method, ...args);
+    }
+  }
+
+  /**
+   * Drop the WebSockets of every connection, so clients reconnect.
+   */
+  public dropConnections(): void {
+    for (const connection of Object.values(this.connections)) {
+      connection.drop();
+    }
+  }
+
+  /**
+   * Wait for the next request of an endpoint.
+   * @param endpoint - The endpoint.
+   */
+  public nextRequest(endpoint: FakeEndpoint): Promise<FakeRequest> {
+    return this.waitFor((event) =>
+      event[0] === "request" && event[1].endpoint === endpoint
+        ? [event[1]]
+        : null
+    );
+  }
+
+  /**
+   * Stop the server, dropping every connection.
+   */
+  public async close(): Promise<void> {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.dropConnections();
+    await this.server.shutdown();
+  }
+
+  /**
+   * Resolve after a delay, unless the server closes first.
+   * @param ms - The delay in milliseconds.
+   */
+  public _delay(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+
+  /**
+   * Handle a request to the server.
+   * @param request - The request.
+   */
+  public _handle(request: Request): Response | Promise<Response> {
+    const url = new URL(request.url);
+    const endpoint = url.pathname.slice(this.path.length + 1) as FakeEndpoint;
+    if (
+      !url.pathname.startsWith(`${this.path}/`) ||
+      !endpoints.includes(endpoint)
+    ) {
+      return new Response(null, { status: 404 });
+    }
+    const connection = this.connections[
+      url.searchParams.get("connectionToken") ?? ""
+    ];
+    const upgrade = request.headers.get("Upgrade")?.toLowerCase() ===
+      "websocket";
+
+    let status = this.failures[endpoint]?.shift();
+    if (status === undefined) {
+      if (endpoint !== "negotiate" && !connection) status = 400;
+      else if (endpoint === "connect" || endpoint === "reconnect") {
+        status = upgrade ? 101 : 400;
+      } else status = 200;
+    }
+    const record: FakeRequest = {
+      endpoint,
+      url,
+      method: request.method,
+      // Copied, as the headers of upgraded requests can no longer be read.
+      headers: new Headers(request.headers),
+      status,
+    };
+    this.requests.push(record);
+    this.post(["request", record]);
+    if (status !== 200 && status !== 101) {
+      return new Response(null, { status });
+    }
+
+    switch (endpoint) {
+      case "negotiate":
+        return this._negotiate();
+      case "connect":
+      case "reconnect":
+        return this._upgrade(request, connection);
+      case "start":
+        return Response.json({ Response: "started" });
+      case "abort":
+        connection.drop();
+        delete this.connections[connection.token];
+        return new Response(null);
+    }
+  }
+
+  /**
+   * Negotiate a new connection.
+   */
+  public _negotiate(): Response {
+    const connection = new FakeConnection(String(++this.connectionCount));
+    this.connections[connection.token] = connection;
+    return Response.json({
+      Url: this.path,
+      ConnectionToken: connection.token,
+      ConnectionId: connection.id,
+      KeepAliveTimeout: this.keepAliveTimeout,
+      DisconnectTimeout: 30,
+      ConnectionTimeout: 110,
+      TryWebSockets: true,
+      ProtocolVersion: "1.5",
+      TransportConnectTimeout: 5,
+      LongPollDelay: 0,
+    });
+  }
+
+  /**
+   * Upgrade a connect or reconnect request to the WebSocket of a connection.
+   * @param request - The request.
+   * @param connection - The connection.
+   */
+  public _upgrade(request: Request, connection: FakeConnection): Response {
+    const { socket, response } = Deno.upgradeWebSocket(request);
+    connection.drop();
+    connection.socket = socket;
+    socket.onopen = () => {
+      // The init message of a new WebSocket.
+      connection._send({ S: 1, M: [] });
+      if (this.keepAliveInterval !== false) {
+        connection._keepAliveTimer = setInterval(() => {
+          connection._send({});
+        }, this.keepAliveInterval);
+      }
+      this.post(["connected", connection]);
+    };
+    socket.onmessage = (event) => {
+      this._invoke(connection, JSON.parse(event.data)).then();
+    };
+    socket.onclose = () => {
+      if (connection.socket !== socket) return;
+      clearInterval(connection._keepAliveTimer);
+      this.post(["disconnected", connection]);
+    };
+    return response;
+  }
+
+  /**
+   * Run a hub method invocation and send its response.
+   * @param connection - The connection the invocation was received on.
+   * @param message - The invocation message.
+   */
+  public async _invoke(
+    connection: FakeConnection,
+    message: Message & { I: number | string },
+  ): Promise<void> {
+    const invocation = new FakeInvocation(this, connection, message);
+    this.invocations.push(invocation);
+    this.post(["invocation", invocation]);
+    const socket = connection.socket;
+
+    let response: HubMessageData;
+    try {
+      const method = this._findMethod(invocation.hub, invocation.method);
+      if (!method) {
+        throw new Error(
+          `'${invocation.method}' method could not be resolved.`,
+        );
+      }
+      response = {
+        I: String(invocation.invocationId),
+        R: await method(invocation),
+      };
+    } catch (error) {
+      response = error instanceof FakeHubError
+        ? {
+          I: String(invocation.invocationId),
+          E: error.message,
+          H: true,
+          D: error.data,
+        }
+        : {
+          I: String(invocation.invocationId),
+          E: error instanceof Error ? error.message : String(error),
+        };
+    }
+    // Responses for dropped sockets are lost, like on a real server.
+    if (connection.socket === socket) connection._send(response);
+  }
+
+  /**
+   * Find a hub method, ignoring the case of the names.
+   * @param hub - The hub name.
+   * @param method - The method name.
+   */
+  public _findMethod(hub: string, method: string): FakeHubMethod | undefined {
+    const find = <T>(record: Record<string, T>, name: string) =>
+      Object.entries(record).find(([key]) =>
+        key.toLowerCase() === name.toLowerCase()
+      )?.[1];
+    const methods = find(this.hubs, hub);
+    return methods && find(methods, method);
+  }
+}
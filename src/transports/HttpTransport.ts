@@ -0,0 +1,250 @@
+import {
+  type CookieJar,
+  type FetchOptions,
+  fetchWithCookies,
+} from "../utils/cookieJar.ts";
+import type { HttpClient } from "./Transport.ts";
+
+/**
+ * Options for the HTTP based transports.
+ */
+export interface HttpTransportOptions {
+  /**
+   * Get the headers for a request. Called for every request, so they can
+   * carry a refreshed access token.
+   */
+  headers: () => Record<string, string>;
+  /**
+   * Whether to include credentials from `credentials: include` in Fetch.
+   */
+  includeCredentials?: boolean;
+  /**
+   * The cookie jar to send and store cookies with.
+   */
+  cookieJar?: CookieJar;
+  /**
+   * The HTTP client to make the requests with, such as one with a proxy.
+   */
+  httpClient?: Deno.HttpClient;
+  /**
+   * The HTTP client sending the requests. Default: fetch
+   */
+  http?: HttpClient;
+  /**
+   * Signal which closes the transport if it aborts before the transport opens.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Base class for the transports which are built on top of plain HTTP requests.
+ * Exposes the same surface as a WebSocket so the client can use it in place of one.
+ */
+export abstract class HttpTransport extends EventTarget {
+  /**
+   * The URL to post outgoing messages to.
+   */
+  public sendUrl: string;
+
+  /**
+   * Get the headers for a request.
+   */
+  public headers: () => Record<string, string>;
+
+  /**
+   * Whether to include credentials from `credentials: include` in Fetch.
+   */
+  public includeCredentials?: boolean;
+
+  /**
+   * The cookie jar to send and store cookies with.
+   */
+  public cookieJar?: CookieJar;
+
+  /**
+   * The HTTP client to make the requests with.
+   */
+  public httpClient?: Deno.HttpClient;
+
+  /**
+   * The HTTP client sending the requests, fetch when not set.
+   */
+  public http?: HttpClient;
+
+  /**
+   * The ready state, matching the WebSocket ready states.
+   */
+  public readyState: 0 | 1 | 2 | 3 = 0;
+
+  /**
+   * Aborts all in-flight requests once the transport is closed.
+   */
+  protected controller = new AbortController();
+
+  private listeners: Record<string, EventListener | undefined> = {};
+
+  private signal?: AbortSignal;
+
+  private onAbort = () => this.close();
+
+  /**
+   * Construct a HTTP transport.
+   * @param sendUrl - The URL to post outgoing messages to.
+   * @param options - The transport options.
+   */
+  constructor(sendUrl: string, options: HttpTransportOptions) {
+    super();
+    this.sendUrl = sendUrl;
+    this.headers = options.headers;
+    this.includeCredentials = options.includeCredentials;
+    this.cookieJar = options.cookieJar;
+    this.httpClient = options.httpClient;
+    this.http = options.http;
+    this.signal = options.signal;
+    if (this.signal?.aborted) this.controller.abort();
+    this.signal?.addEventListener("abort", this.onAbort);
+  }
+
+  /**
+   * Mark the transport as open and dispatch the open event.
+   */
+  protected opened() {
+    this.signal?.removeEventListener("abort", this.onAbort);
+    this.readyState = 1;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  /**
+   * Set event listener for the close event
+   */
+  set onclose(listener: (ev: CloseEvent) => unknown) {
+    this.setListener("close", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the message event
+   */
+  set onmessage(listener: (ev: MessageEvent) => unknown) {
+    this.setListener("message", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the error event
+   */
+  set onerror(listener: (ev: ErrorEvent) => unknown) {
+    this.setListener("error", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the open event
+   */
+  set onopen(listener: (ev: Event) => unknown) {
+    this.setListener("open", listener);
+  }
+
+  private setListener(type: string, listener: (ev: Event) => unknown) {
+    const previous = this.listeners[type];
+    if (previous) this.removeEventListener(type, previous);
+    const wrapped = (event: Event) => listener(event);
+    this.listeners[type] = wrapped;
+    this.addEventListener(type, wrapped);
+  }
+
+  /**
+   * Create the fetch options for a request.
+   * @param method - The HTTP method.
+   */
+  protected requestOptions(method = "GET"): FetchOptions {
+    const options: FetchOptions = {
+      method,
+      headers: new Headers(this.headers()),
+      signal: this.controller.signal,
+    };
+    if (this.includeCredentials) options.credentials = "include";
+    if (this.httpClient) options.client = this.httpClient;
+    return options;
+  }
+
+  /**
+   * Fetch a URL with the cookies of the cookie jar.
+   * @param url - The request URL.
+   * @param options - The fetch options.
+   */
+  protected fetch(url: string, options: FetchOptions): Promise<Response> {
+    const http = this.http;
+    return fetchWithCookies(
+      url,
+      options,
+      this.cookieJar,
+      http && ((url, options) => http.fetch(url, options)),
+    );
+  }
+
+  /**
+   * Dispatch every non-empty payload as a message.
+   * @param data - The payload received from the server.
+   */
+  protected dispatchMessage(data: string) {
+    if (data) this.dispatchEvent(new MessageEvent("message", { data }));
+  }
+
+  /**
+   * Dispatch an error unless the transport has already been closed.
+   * @param error - The error to dispatch.
+   */
+  protected dispatchError(error: unknown) {
+    if (this.readyState === 3) return;
+    this.dispatchEvent(new ErrorEvent("error", { error }));
+  }
+
+  /**
+   * Send data to the server through the send endpoint.
+   * Failures are dispatched as error events.
+   * @param data - The data to send.
+   */
+  async send(data: string): Promise<void> {
+    if (this.readyState !== 1) {
+      throw new TypeError(
+        "Transport readyState must be OPEN to send messages.",
+      );
+    }
+    const options = this.requestOptions("POST");
+    (options.headers as Headers).set(
+      "Content-Type",
+      "application/x-www-form-urlencoded; charset=UTF-8",
+    );
+    options.body = `data=${encodeURIComponent(data)}`;
+
+    try {
+      const response = await this.fetch(this.sendUrl, options);
+      if (!response.ok) {
+        this.dispatchError(response.status);
+        return;
+      }
+      // Hub results can be sent back in the response of the send request.
+      this.dispatchMessage(await response.text());
+    } catch (error) {
+      this.dispatchError(error);
+    }
+  }
+
+  /**
+   * Close the transport, aborting all in-flight requests.
+   * @param code - The close code.
+   * @param reason - The close reason.
+   */
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === 3) return;
+    this.signal?.removeEventListener("abort", this.onAbort);
+    this.readyState = 3;
+    this.controller.abort();
+    this.dispatchEvent(new CloseEvent("close", { code, reason }));
+  }
+
+  /**
+   * Returns the boolean stating is the transport closed or not
+   */
+  get closed() {
+    return this.readyState === 3;
+  }
+}
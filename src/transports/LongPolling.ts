@@ -0,0 +1,171 @@
+import { HttpTransport, type HttpTransportOptions } from "./HttpTransport.ts";
+import type { FetchOptions } from "../utils/cookieJar.ts";
+
+/**
+ * Options for the long polling transport.
+ */
+export interface LongPollingOptions extends HttpTransportOptions {
+  /**
+   * The delay between polls in milliseconds, from negotiation.
+   */
+  pollDelay?: number;
+  /**
+   * The message ID to resume polling from.
+   */
+  messageId?: string;
+  /**
+   * The groups token to resume polling with.
+   */
+  groupsToken?: string;
+}
+
+/**
+ * The persistent connection fields read by the long polling transport.
+ */
+interface PollResponse {
+  /**
+   * The message ID.
+   */
+  C?: string;
+  /**
+   * The groups token.
+   */
+  G?: string;
+  /**
+   * The delay before the next poll in milliseconds.
+   */
+  L?: number;
+  /**
+   * Whether the server asked the client to disconnect.
+   */
+  D?: number;
+}
+
+/**
+ * The response of a connect or poll request.
+ */
+interface PollResult {
+  /**
+   * The payload, dispatched as a message.
+   */
+  data: string;
+  /**
+   * Whether the server asked the client to disconnect.
+   */
+  disconnect: boolean;
+}
+
+/**
+ * Long polling transport. Receives messages by repeatedly polling the server
+ * and sends messages through the send endpoint.
+ */
+export class LongPolling extends HttpTransport {
+  /**
+   * The delay between polls in milliseconds.
+   */
+  public pollDelay: number;
+
+  /**
+   * The latest message ID, sent with each poll.
+   */
+  public messageId?: string;
+
+  /**
+   * The latest groups token, sent with each poll.
+   */
+  public groupsToken?: string;
+
+  /**
+   * Construct a long polling transport and start polling.
+   * @param url - The URL of the connect request.
+   * @param pollUrl - The URL of the poll requests.
+   * @param sendUrl - The URL to post outgoing messages to.
+   * @param options - The transport options.
+   */
+  constructor(
+    url: string,
+    pollUrl: string,
+    sendUrl: string,
+    options: LongPollingOptions,
+  ) {
+    super(sendUrl, options);
+    this.pollDelay = options.pollDelay ?? 0;
+    this.messageId = options.messageId;
+    this.groupsToken = options.groupsToken;
+    this.init(url, pollUrl);
+  }
+
+  private async init(url: string, pollUrl: string) {
+    try {
+      const connected = await this.request(url, this.requestOptions());
+      if (connected.disconnect) return this.close();
+      this.opened();
+      // The connect response can already carry messages. Dispatch them once
+      // the client has attached its message handler.
+      await this.delay(0);
+      if (this.readyState === 1) this.dispatchMessage(connected.data);
+
+      while (this.readyState === 1) {
+        if (this.pollDelay) await this.delay(this.pollDelay);
+        if (this.readyState !== 1) break;
+
+        const options = this.requestOptions("POST");
+        (options.headers as Headers).set(
+          "Content-Type",
+          "application/x-www-form-urlencoded; charset=UTF-8",
+        );
+        options.body = new URLSearchParams({
+          messageId: this.messageId ?? "",
+          groupsToken: this.groupsToken ?? "",
+        }).toString();
+        const { data, disconnect } = await this.request(pollUrl, options);
+        if (this.readyState === 1) this.dispatchMessage(data);
+        if (disconnect) break;
+      }
+    } catch (error) {
+      this.dispatchError(error);
+    }
+
+    this.close();
+  }
+
+  /**
+   * Make a connect or poll request and read the persistent connection fields
+   * of its response.
+   * @param url - The request URL.
+   * @param options - The fetch options.
+   */
+  private async request(
+    url: string,
+    options: FetchOptions,
+  ): Promise<PollResult> {
+    const response = await this.fetch(url, options);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`LP: Unexpected response status ${response.status}`);
+    }
+
+    const data = await response.text();
+    if (!data) return { data, disconnect: false };
+    const poll: PollResponse = JSON.parse(data);
+    if (poll.C) this.messageId = poll.C;
+    if (poll.G) this.groupsToken = poll.G;
+    if (typeof poll.L === "number") this.pollDelay = poll.L;
+    return { data, disconnect: !!poll.D };
+  }
+
+  private delay(ms: number): Promise<void> {
+    const { signal } = this.controller;
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener("abort", onAbort);
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import type { WSOptions } from "../utils/createSocketConnection.ts";
+import type { FetchOptions } from "../utils/cookieJar.ts";
+import type { HttpClient, Transport, TransportSocket } from "./Transport.ts";
+
+/**
+ * One end of an in-memory connection. Messages sent from one end are received
+ * by the other.
+ */
+export class MemorySocket extends EventTarget implements TransportSocket {
+  /**
+   * The ready state, matching the WebSocket ready states.
+   */
+  public readyState: 0 | 1 | 2 | 3 = 0;
+
+  /**
+   * The other end of the connection.
+   */
+  public peer?: MemorySocket;
+
+  /**
+   * The messages sent from this end, in order.
+   */
+  public sent: (string | Uint8Array)[] = [];
+
+  private listeners: Record<string, EventListener | undefined> = {};
+
+  /**
+   * Set event listener for the close event, replacing the previous one
+   */
+  set onclose(listener: (ev: CloseEvent) => unknown) {
+    this.setListener("close", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the message event, replacing the previous one
+   */
+  set onmessage(listener: (ev: MessageEvent) => unknown) {
+    this.setListener("message", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the error event, replacing the previous one
+   */
+  set onerror(listener: (ev: ErrorEvent) => unknown) {
+    this.setListener("error", listener as (ev: Event) => unknown);
+  }
+
+  /**
+   * Set event listener for the open event, replacing the previous one
+   */
+  set onopen(listener: (ev: Event) => unknown) {
+    this.setListener("open", listener);
+  }
+
+  private setListener(type: string, listener: (ev: Event) => unknown) {
+    const previous = this.listeners[type];
+    if (previous) this.removeEventListener(type, previous);
+    const wrapped = (event: Event) => listener(event);
+    this.listeners[type] = wrapped;
+    this.addEventListener(type, wrapped);
+  }
+
+  /**
+   * Open this end, unless it has been closed.
+   */
+  open() {
+    if (this.readyState !== 0) return;
+    this.readyState = 1;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  /**
+   * Send a message to the other end, which receives it asynchronously.
+   * @param data - The message.
+   */
+  send(data: string | Uint8Array) {
+    if (this.readyState !== 1) {
+      throw new TypeError("Socket readyState must be OPEN to send messages.");
+    }
+    this.sent.push(data);
+    const peer = this.peer;
+    queueMicrotask(() => {
+      if (peer?.readyState === 1) {
+        peer.dispatchEvent(new MessageEvent("message", { data }));
+      }
+    });
+  }
+
+  /**
+   * Wait for the next message received from the other end.
+   * @typeParam T - The message type, string unless binary messages are sent.
+   */
+  nextMessage<T extends string | Uint8Array = string>(): Promise<T> {
+    return new Promise((resolve) => {
+      this.addEventListener(
+        "message",
+        (event) => resolve((event as MessageEvent).data),
+        { once: true },
+      );
+    });
+  }
+
+  /**
+   * Close both ends of the connection.
+   * @param code - The close code.
+   * @param reason - The close reason.
+   */
+  close(code = 1000, reason = "") {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.dispatchEvent(
+      new CloseEvent("close", { code, reason, wasClean: true }),
+    );
+    this.peer?.close(code, reason);
+  }
+}
+
+/**
+ * Create the two ends of an in-memory connection, closed until opened.
+ */
+export function createMemorySocketPair(): [MemorySocket, MemorySocket] {
+  const client = new MemorySocket();
+  const server = new MemorySocket();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
+
+/**
+ * A connection made through a memory transport, seen from the server.
+ */
+export interface MemoryConnection {
+  /**
+   * The URL the client connected to.
+   */
+  url: URL;
+  /**
+   * The options the client connected with.
+   */
+  options: WSOptions;
+  /**
+   * The server end of the connection.
+   */
+  socket: MemorySocket;
+}
+
+/**
+ * Handler answering the HTTP requests sent through a memory transport.
+ */
+export type MemoryRequestHandler = (
+  request: Request,
+) => Response | Promise<Response>;
+
+/**
+ * A transport and HTTP client connecting to a server scripted in memory,
+ * so a client can be run without a network.
+ * @example
+ * const memory = new MemoryTransport(() => Response.json(negotiateResponse));
+ * const client = new Client(url, ["hub"], {
+ *   transport: memory,
+ *   http: memory,
+ *   transports: ["webSockets"],
+ * });
+ * client.start();
+ * const { socket } = await memory.accept();
+ * socket.send(JSON.stringify({ M: [{ H: "hub", M: "hello", A: [] }] }));
+ */
+export class MemoryTransport implements Transport, HttpClient {
+  /**
+   * The HTTP requests sent by the client, in order.
+   */
+  public requests: Request[] = [];
+
+  /**
+   * The connections made by the client, in order.
+   */
+  public connections: MemoryConnection[] = [];
+
+  /**
+   * The handler answering the HTTP requests.
+   */
+  public handler: MemoryRequestHandler;
+
+  private accepted = 0;
+
+  private waiting: ((connection: MemoryConnection) => void)[] = [];
+
+  /**
+   * Construct a memory transport.
+   * @param handler - The handler answering the HTTP requests. Responds with
+   * 404 Not Found when not set.
+   */
+  constructor(
+    handler: MemoryRequestHandler = () => new Response(null, { status: 404 }),
+  ) {
+    this.handler = handler;
+  }
+
+  /**
+   * Answer a request with the handler.
+   * @param url - The request URL.
+   * @param options - The fetch options.
+   */
+  async fetch(url: string, options: FetchOptions): Promise<Response> {
+    const request = new Request(url, options);
+    this.requests.push(request);
+    return await this.handler(request.clone());
+  }
+
+  /**
+   * Connect the client to a new in-memory socket. Both ends open after the
+   * current task, unless the server closes its end first.
+   * @param url - The WebSocket URL.
+   * @param options - The connection options.
+   */
+  connect(url: string, options: WSOptions): Promise<TransportSocket> {
+    const [client, server] = createMemorySocketPair();
+    const connection = { url: new URL(url), options, socket: server };
+    this.connections.push(connection);
+    const { signal } = options;
+    const onAbort = () => client.close(1006, "Aborted");
+    signal?.addEventListener("abort", onAbort, { once: true });
+    setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      server.open();
+      client.open();
+    });
+    this.waiting.shift()?.(connection);
+    if (signal?.aborted) onAbort();
+    return Promise.resolve(client);
+  }
+
+  /**
+   * Wait for the next connection which hasn't been accepted yet.
+   */
+  accept(): Promise<MemoryConnection> {
+    const connection = this.connections[this.accepted];
+    if (connection) {
+      this.accepted++;
+      return Promise.resolve(connection);
+    }
+    return new Promise((resolve) => {
+      this.waiting.push((connection) => {
+        this.accepted++;
+        resolve(connection);
+      });
+    });
+  }
+}
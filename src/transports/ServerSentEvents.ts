@@ -0,0 +1,69 @@
+import { HttpTransport, type HttpTransportOptions } from "./HttpTransport.ts";
+
+/**
+ * Server-Sent Events transport. Receives messages from an event stream and
+ * sends messages through the send endpoint.
+ */
+export class ServerSentEvents extends HttpTransport {
+  /**
+   * Construct a Server-Sent Events transport and start reading the event stream.
+   * @param url - The URL of the event stream.
+   * @param sendUrl - The URL to post outgoing messages to.
+   * @param options - The transport options.
+   */
+  constructor(url: string, sendUrl: string, options: HttpTransportOptions) {
+    super(sendUrl, options);
+    this.init(url);
+  }
+
+  private async init(url: string) {
+    const options = this.requestOptions();
+    (options.headers as Headers).set("Accept", "text/event-stream");
+
+    try {
+      const response = await this.fetch(url, options);
+      if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        throw new Error(`SSE: Unexpected response status ${response.status}`);
+      }
+      await this.read(response.body);
+    } catch (error) {
+      this.dispatchError(error);
+    }
+
+    this.close();
+  }
+
+  private async read(body: ReadableStream<Uint8Array>) {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let data: string[] = [];
+
+    while (this.readyState !== 3) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length) this.dispatchData(data.join("\n"));
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(line.startsWith("data: ") ? 6 : 5));
+        }
+        // Comments and other fields aren't used by SignalR.
+      }
+    }
+  }
+
+  private dispatchData(data: string) {
+    if (data === "initialized") {
+      if (this.readyState === 0) this.opened();
+    } else if (this.readyState === 1) {
+      this.dispatchMessage(data);
+    }
+  }
+}
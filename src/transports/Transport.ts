@@ -0,0 +1,72 @@
+import {
+  createSocketConnection,
+  type WSOptions,
+} from "../utils/createSocketConnection.ts";
+import type { FetchOptions } from "../utils/cookieJar.ts";
+
+/**
+ * The WebSocket-like connection the client sends and receives messages
+ * through. Implemented by `WebSocket`, the custom WebSocket client and the
+ * HTTP based transports.
+ */
+export interface TransportSocket {
+  /**
+   * The ready state, matching the WebSocket ready states.
+   */
+  readonly readyState: number;
+  /**
+   * Send a message to the server.
+   * @param data - The message.
+   */
+  send(data: string | Uint8Array): unknown;
+  /**
+   * Close the connection.
+   * @param code - The close code.
+   * @param reason - The close reason.
+   */
+  close(code?: number, reason?: string): unknown;
+  onopen: ((ev: Event) => unknown) | null;
+  onmessage: ((ev: MessageEvent) => unknown) | null;
+  onerror: ((ev: ErrorEvent) => unknown) | null;
+  onclose: ((ev: CloseEvent) => unknown) | null;
+}
+
+/**
+ * Opens the WebSocket connections of a client.
+ */
+export interface Transport {
+  /**
+   * Open a WebSocket connection. The socket dispatches `open` once it is
+   * connected, or `error` and `close` if it fails.
+   * @param url - The WebSocket URL.
+   * @param options - The connection options.
+   */
+  connect(url: string, options: WSOptions): Promise<TransportSocket>;
+}
+
+/**
+ * Sends the HTTP requests of a client, such as negotiate, start and abort.
+ */
+export interface HttpClient {
+  /**
+   * Send a request.
+   * @param url - The request URL.
+   * @param options - The fetch options.
+   */
+  fetch(url: string, options: FetchOptions): Promise<Response>;
+}
+
+/**
+ * The default transport, connecting with `WebSocket` in browsers and the
+ * custom WebSocket client elsewhere.
+ */
+export const webSocketTransport: Transport = {
+  connect: createSocketConnection,
+};
+
+/**
+ * The default HTTP client, sending requests with `fetch`.
+ */
+export const fetchHttpClient: HttpClient = {
+  fetch: (url, options) => fetch(url, options),
+};
@@ -0,0 +1,282 @@
+/**
+ * Storage for the cookies set by the server, sent back with later requests.
+ */
+export interface CookieJar {
+  /**
+   * Get the `Cookie` header value for a request.
+   * @param url - The request URL.
+   * @returns The header value, or an empty string without matching cookies.
+   */
+  getCookieHeader(url: string): Promise<string>;
+  /**
+   * Store the cookies of a response.
+   * @param url - The request URL.
+   * @param setCookieHeaders - The `Set-Cookie` header values of the response.
+   */
+  setCookies(url: string, setCookieHeaders: string[]): Promise<void>;
+}
+
+/**
+ * A cookie stored in a cookie jar.
+ */
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  /**
+   * Whether the cookie is only sent to the exact domain, without subdomains.
+   */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  /**
+   * When the cookie expires in milliseconds since the epoch, or undefined for
+   * a session cookie.
+   */
+  expires?: number;
+}
+
+/**
+ * Get the default path of a cookie set by a request.
+ *
+ * @param url The request URL
+ */
+function defaultPath(url: URL): string {
+  const index = url.pathname.lastIndexOf("/");
+  return index > 0 ? url.pathname.slice(0, index) : "/";
+}
+
+/**
+ * Check whether a host name matches a cookie domain.
+ *
+ * @param hostname The request host name
+ * @param domain The cookie domain
+ */
+function domainMatches(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Check whether a request path matches a cookie path.
+ *
+ * @param pathname The request path
+ * @param path The cookie path
+ */
+function pathMatches(pathname: string, path: string): boolean {
+  return pathname === path ||
+    pathname.startsWith(path.endsWith("/") ? path : `${path}/`);
+}
+
+/**
+ * Parse a `Set-Cookie` header value.
+ *
+ * @param header The header value
+ * @param url The request URL
+ * @returns The cookie, or undefined if it is invalid for the URL
+ */
+export function parseSetCookie(
+  header: string,
+  url: URL,
+): StoredCookie | undefined {
+  const [pair, ...attributes] = header.split(";");
+  const separator = pair.indexOf("=");
+  if (separator < 1) return;
+
+  const cookie: StoredCookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: url.hostname.toLowerCase(),
+    hostOnly: true,
+    path: defaultPath(url),
+    secure: false,
+  };
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split("=");
+    const value = rest.join("=").trim();
+    switch (key.trim().toLowerCase()) {
+      case "expires": {
+        const expires = Date.parse(value);
+        if (!isNaN(expires)) cookie.expires = expires;
+        break;
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(value)) maxAge = Number(value);
+        break;
+      case "domain": {
+        const domain = value.replace(/^\./, "").toLowerCase();
+        if (!domain) break;
+        if (!domainMatches(cookie.domain, domain)) return;
+        // Single-label domains such as `com` are public suffixes, which may
+        // only name the host itself.
+        if (!domain.includes(".")) {
+          if (domain !== cookie.domain) return;
+          break;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case "path":
+        if (value.startsWith("/")) cookie.path = value;
+        break;
+      case "secure":
+        cookie.secure = true;
+        break;
+    }
+  }
+  // Max-Age takes precedence over Expires.
+  if (maxAge !== undefined) cookie.expires = Date.now() + maxAge * 1000;
+  return cookie;
+}
+
+/**
+ * Cookie jar keeping the cookies in memory for the lifetime of the client.
+ */
+export class MemoryCookieJar implements CookieJar {
+  /**
+   * The stored cookies by domain, path and name.
+   */
+  protected cookies = new Map<string, StoredCookie>();
+
+  /**
+   * Get the stored cookies which haven't expired.
+   */
+  get all(): StoredCookie[] {
+    this.removeExpired();
+    return [...this.cookies.values()];
+  }
+
+  getCookieHeader(url: string): Promise<string> {
+    this.removeExpired();
+    const { hostname, pathname, protocol } = new URL(url);
+    const secure = protocol === "https:" || protocol === "wss:";
+    const cookies = [...this.cookies.values()]
+      .filter((cookie) =>
+        (cookie.hostOnly
+          ? hostname.toLowerCase() === cookie.domain
+          : domainMatches(hostname.toLowerCase(), cookie.domain)) &&
+        pathMatches(pathname, cookie.path) &&
+        (secure || !cookie.secure)
+      )
+      // Cookies with longer paths are listed first.
+      .sort((a, b) => b.path.length - a.path.length);
+    return Promise.resolve(
+      cookies.map(({ name, value }) => `${name}=${value}`).join("; "),
+    );
+  }
+
+  setCookies(url: string, setCookieHeaders: string[]): Promise<void> {
+    const requestUrl = new URL(url);
+    for (const header of setCookieHeaders) {
+      const cookie = parseSetCookie(header, requestUrl);
+      if (cookie) this.store(cookie);
+    }
+    this.removeExpired();
+    return Promise.resolve();
+  }
+
+  /**
+   * Store a cookie, replacing the cookie with the same domain, path and name.
+   * @param cookie - The cookie.
+   */
+  protected store(cookie: StoredCookie) {
+    this.cookies.set(`${cookie.domain};${cookie.path};${cookie.name}`, cookie);
+  }
+
+  private removeExpired() {
+    const now = Date.now();
+    for (const [key, { expires }] of this.cookies) {
+      if (expires !== undefined && expires <= now) this.cookies.delete(key);
+    }
+  }
+}
+
+/**
+ * Cookie jar persisting its cookies to a JSON file, so they outlive the process.
+ */
+export class FileCookieJar extends MemoryCookieJar {
+  /**
+   * The path of the JSON file.
+   */
+  public path: string;
+
+  private loaded?: Promise<void>;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Construct a file-backed cookie jar. The file is read on first use and
+   * created once the server sets a cookie.
+   * @param path - The path of the JSON file.
+   */
+  constructor(path: string) {
+    super();
+    this.path = path;
+  }
+
+  override async getCookieHeader(url: string): Promise<string> {
+    await this.load();
+    return await super.getCookieHeader(url);
+  }
+
+  override async setCookies(
+    url: string,
+    setCookieHeaders: string[],
+  ): Promise<void> {
+    await this.load();
+    await super.setCookies(url, setCookieHeaders);
+    if (!setCookieHeaders.length) return;
+    // Writes are chained, so concurrent responses can't interleave them.
+    const write = this.writing.then(() =>
+      Deno.writeTextFile(this.path, JSON.stringify(this.all, null, 2))
+    );
+    this.writing = write.catch(() => {});
+    await write;
+  }
+
+  private load(): Promise<void> {
+    return this.loaded ??= Deno.readTextFile(this.path).then(
+      (text) => {
+        for (const cookie of JSON.parse(text) as StoredCookie[]) {
+          this.store(cookie);
+        }
+      },
+      (error) => {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      },
+    );
+  }
+}
+
+/**
+ * Fetch options, with the HTTP client to make the request with in Deno.
+ */
+export type FetchOptions = RequestInit & { client?: Deno.HttpClient };
+
+/**
+ * Fetch a URL, sending the cookies of a cookie jar and storing the cookies of
+ * the response.
+ *
+ * @param url The request URL
+ * @param options The fetch options
+ * @param cookieJar The cookie jar, plain fetch is used without one
+ * @param send The function sending the request. Default: fetch
+ */
+export async function fetchWithCookies(
+  url: string,
+  options: FetchOptions,
+  cookieJar?: CookieJar,
+  send: (url: string, options: FetchOptions) => Promise<Response> = fetch,
+): Promise<Response> {
+  if (!cookieJar) return await send(url, options);
+  const headers = new Headers(options.headers);
+  const cookie = await cookieJar.getCookieHeader(url);
+  if (cookie) {
+    const existing = headers.get("Cookie");
+    headers.set("Cookie", existing ? `${existing}; ${cookie}` : cookie);
+  }
+  const response = await send(url, { ...options, headers });
+  await cookieJar.setCookies(url, response.headers.getSetCookie());
+  return response;
+}
@@ -0,0 +1,183 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  FileCookieJar,
+  MemoryCookieJar,
+  parseSetCookie,
+  type StoredCookie,
+} from "./cookieJar.ts";
+
+const url = new URL("https://www.example.com/signalr/negotiate");
+
+Deno.test("parseSetCookie reads the cookie and its attributes", () => {
+  assertEquals(
+    parseSetCookie(
+      "session=a=b; Domain=.Example.com; Path=/signalr; Secure; HttpOnly",
+      url,
+    ),
+    {
+      name: "session",
+      value: "a=b",
+      domain: "example.com",
+      hostOnly: false,
+      path: "/signalr",
+      secure: true,
+    },
+  );
+});
+
+Deno.test("parseSetCookie defaults to a host-only cookie for the request path", () => {
+  assertEquals(parseSetCookie("id=1; Path=relative", url), {
+    name: "id",
+    value: "1",
+    domain: "www.example.com",
+    hostOnly: true,
+    path: "/signalr",
+    secure: false,
+  });
+  assertEquals(
+    parseSetCookie("id=1", new URL("https://example.com/negotiate"))?.path,
+    "/",
+  );
+});
+
+Deno.test("parseSetCookie prefers Max-Age over Expires", () => {
+  const expires = "Wed, 21 Oct 2015 07:28:00 GMT";
+  assertEquals(
+    parseSetCookie(`id=1; Expires=${expires}`, url)?.expires,
+    Date.parse(expires),
+  );
+  const before = Date.now();
+  const expiry = parseSetCookie(`id=1; Max-Age=60; Expires=${expires}`, url)
+    ?.expires!;
+  assertEquals(expiry >= before + 60000 && expiry <= Date.now() + 60000, true);
+});
+
+Deno.test("parseSetCookie rejects invalid cookies", () => {
+  assertEquals(parseSetCookie("=value", url), undefined);
+  assertEquals(parseSetCookie("novalue", url), undefined);
+  assertEquals(parseSetCookie("id=1; Domain=other.com", url), undefined);
+  assertEquals(parseSetCookie("id=1; Domain=ample.com", url), undefined);
+});
+
+Deno.test("parseSetCookie rejects single-label domains", () => {
+  assertEquals(parseSetCookie("id=1; Domain=com", url), undefined);
+  assertEquals(parseSetCookie("id=1; Domain=.com", url), undefined);
+  const localhost = new URL("http://localhost/signalr");
+  assertEquals(
+    parseSetCookie("id=1; Domain=localhost", localhost)?.hostOnly,
+    true,
+  );
+});
+
+/**
+ * Create a memory cookie jar holding the given cookies.
+ */
+async function jarWith(url: string, ...headers: string[]) {
+  const jar = new MemoryCookieJar();
+  await jar.setCookies(url, headers);
+  return jar;
+}
+
+Deno.test("cookies are sent to matching domains", async () => {
+  const jar = await jarWith(
+    "https://www.example.com/",
+    "host=1",
+    "domain=2; Domain=example.com",
+  );
+
+  assertEquals(
+    await jar.getCookieHeader("https://www.example.com/"),
+    "host=1; domain=2",
+  );
+  assertEquals(
+    await jar.getCookieHeader("https://api.example.com/"),
+    "domain=2",
+  );
+  assertEquals(await jar.getCookieHeader("https://example.com/"), "domain=2");
+  assertEquals(
+    await jar.getCookieHeader("https://sub.www.example.com/"),
+    "domain=2",
+  );
+  assertEquals(await jar.getCookieHeader("https://badexample.com/"), "");
+});
+
+Deno.test("cookies are sent to matching paths, longest first", async () => {
+  const jar = await jarWith(
+    "https://example.com/",
+    "root=1; Path=/",
+    "hub=2; Path=/signalr",
+    "slash=3; Path=/signalr/",
+  );
+
+  assertEquals(
+    await jar.getCookieHeader("https://example.com/signalr/connect"),
+    "slash=3; hub=2; root=1",
+  );
+  assertEquals(
+    await jar.getCookieHeader("https://example.com/signalr"),
+    "hub=2; root=1",
+  );
+  assertEquals(
+    await jar.getCookieHeader("https://example.com/signalrx"),
+    "root=1",
+  );
+});
+
+Deno.test("secure cookies are only sent over secure connections", async () => {
+  const jar = await jarWith("https://example.com/", "secure=1; Secure", "a=2");
+
+  assertEquals(
+    await jar.getCookieHeader("wss://example.com/"),
+    "secure=1; a=2",
+  );
+  assertEquals(await jar.getCookieHeader("http://example.com/"), "a=2");
+});
+
+Deno.test("cookies are replaced and expired", async () => {
+  const jar = await jarWith("https://example.com/", "a=1", "b=2");
+  await jar.setCookies("https://example.com/", ["a=3", "b=; Max-Age=0"]);
+
+  assertEquals(await jar.getCookieHeader("https://example.com/"), "a=3");
+  assertEquals(jar.all.length, 1);
+});
+
+Deno.test("file cookie jars write concurrent responses in turn", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.remove(path);
+  const writeTextFile = Deno.writeTextFile;
+  let writing = 0;
+  let overlapping = false;
+  Deno.writeTextFile = async (...args: Parameters<typeof writeTextFile>) => {
+    overlapping ||= writing > 0;
+    writing++;
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return await writeTextFile(...args);
+    } finally {
+      writing--;
+    }
+  };
+  try {
+    const jar = new FileCookieJar(path);
+    await Promise.all(
+      Array.from(
+        { length: 10 },
+        (_, index) =>
+          jar.setCookies("https://example.com/", [`cookie${index}=${index}`]),
+      ),
+    );
+
+    assertEquals(overlapping, false);
+    const stored: StoredCookie[] = JSON.parse(await Deno.readTextFile(path));
+    assertEquals(stored.length, 10);
+    const reloaded = new FileCookieJar(path);
+    assertEquals(
+      (await reloaded.getCookieHeader("https://example.com/")).split("; ")
+        .length,
+      10,
+    );
+  } finally {
+    Deno.writeTextFile = writeTextFile;
+    await Deno.remove(path).catch(() => {});
+  }
+});
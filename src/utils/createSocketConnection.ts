@@ -1,11 +1,44 @@
 import { detectEnvironment } from "./detectEnvironment.ts";
 import type WS from "../custom_socket/ws.ts";
+import type { CookieJar } from "./cookieJar.ts";
+import type { ProxyOptions } from "./proxy.ts";
+import type { TlsOptions } from "./tls.ts";
+import type { CompressionOptions } from "../custom_socket/deflate.ts";
 
 /**
  * Custom websocket options. Made to match with Node WS.
  */
 export interface WSOptions {
   headers: Record<string, string>;
+  /**
+   * Access token sent as a bearer `Authorization` header, or as the
+   * `access_token` query parameter in browsers which can't set headers.
+   */
+  accessToken?: string;
+  /**
+   * Signal which cancels the connection if it aborts before the socket opens.
+   */
+  signal?: AbortSignal;
+  /**
+   * The cookie jar to send cookies from with the upgrade request.
+   * Browsers send their own cookies instead.
+   */
+  cookieJar?: CookieJar;
+  /**
+   * The proxy to tunnel the connection through, false to connect directly.
+   * Browsers use their own proxy settings instead.
+   */
+  proxy?: ProxyOptions | false;
+  /**
+   * The TLS options for secure connections.
+   * Browsers use their own certificate settings instead.
+   */
+  tls?: TlsOptions;
+  /**
+   * Whether to offer permessage-deflate compression, or its options.
+   * Browsers negotiate compression themselves instead.
+   */
+  compression?: boolean | CompressionOptions;
 }
 
 /**
@@ -25,14 +58,37 @@ export async function createSocketConnection(
   options: WSOptions,
 ): Promise<WS | WebSocket> {
   const environment = detectEnvironment();
+  const { accessToken } = options;
   if (environment === "Browser" || environment === "Unknown") {
-    return new WebSocket(url);
+    if (accessToken) {
+      const tokenUrl = new URL(url);
+      tokenUrl.searchParams.set("access_token", accessToken);
+      url = tokenUrl.toString();
+    }
+    const webSocket = new WebSocket(url);
+    const { signal } = options;
+    if (signal) {
+      const onAbort = () => webSocket.close();
+      signal.addEventListener("abort", onAbort);
+      webSocket.addEventListener("open", () => {
+        signal.removeEventListener("abort", onAbort);
+      });
+      webSocket.addEventListener("close", () => {
+        signal.removeEventListener("abort", onAbort);
+      });
+    }
+    return webSocket;
   }
   const { default: WS } = await import(
     "../custom_socket/ws.ts"
   ); // Map this to WS on Node
 
-  return new WS(url, options);
+  return new WS(url, {
+    ...options,
+    headers: accessToken
+      ? { ...options.headers, Authorization: `Bearer ${accessToken}` }
+      : options.headers,
+  });
 }
 
 export { type WS };
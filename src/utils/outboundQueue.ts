@@ -0,0 +1,150 @@
+/**
+ * What to do with an invocation when the outbound queue is full.
+ * - `dropOldest` drops the oldest queued invocation to make room.
+ * - `dropNewest` drops the new invocation.
+ * - `reject` throws from the invocation, so calls reject right away.
+ */
+export type OverflowPolicy = "dropOldest" | "dropNewest" | "reject";
+
+/**
+ * Options for the outbound queue holding invocations while reconnecting.
+ */
+export interface OutboundQueueOptions {
+  /**
+   * The maximum amount of queued invocations. Default: 100
+   */
+  maxSize?: number;
+  /**
+   * The maximum time an invocation stays queued in milliseconds.
+   * Older invocations are dropped instead of sent. Default: no limit
+   */
+  maxAge?: number;
+  /**
+   * What to do with an invocation when the queue is full. Default: dropOldest
+   */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * An invocation waiting in the outbound queue.
+ */
+interface QueuedInvocation {
+  /**
+   * The invocation ID.
+   */
+  invocationId: number;
+  /**
+   * When the invocation was queued, in milliseconds since the epoch.
+   */
+  queuedAt: number;
+  /**
+   * Function sending the invocation once connected.
+   */
+  send: () => void;
+}
+
+/**
+ * Bounded queue of outgoing invocations, sent in order once connected.
+ */
+export class OutboundQueue {
+  /**
+   * The maximum amount of queued invocations.
+   */
+  public maxSize: number;
+
+  /**
+   * The maximum time an invocation stays queued in milliseconds.
+   */
+  public maxAge?: number;
+
+  /**
+   * What to do with an invocation when the queue is full.
+   */
+  public overflow: OverflowPolicy;
+
+  private queue: QueuedInvocation[] = [];
+  private onDrop: (invocationId: number, reason: string) => void;
+
+  /**
+   * Construct an outbound queue.
+   * @param options - The queue options.
+   * @param onDrop - Function to be called with each invocation dropped without being sent.
+   */
+  constructor(
+    options: OutboundQueueOptions,
+    onDrop: (invocationId: number, reason: string) => void,
+  ) {
+    this.maxSize = options.maxSize ?? 100;
+    this.maxAge = options.maxAge;
+    this.overflow = options.overflow ?? "dropOldest";
+    this.onDrop = onDrop;
+  }
+
+  /**
+   * The amount of queued invocations.
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * The IDs of the queued invocations, oldest first.
+   */
+  get invocationIds(): number[] {
+    return this.queue.map(({ invocationId }) => invocationId);
+  }
+
+  /**
+   * Queue an invocation, applying the overflow policy when full.
+   * @param invocationId - The invocation ID.
+   * @param send - Function sending the invocation once connected.
+   */
+  enqueue(invocationId: number, send: () => void): void {
+    this.dropExpired();
+    if (this.queue.length >= this.maxSize) {
+      if (this.overflow === "reject") {
+        throw new RangeError("Outbound queue is full");
+      } else if (this.overflow === "dropNewest" || !this.queue.length) {
+        this.onDrop(invocationId, "Dropped from the full outbound queue");
+        return;
+      }
+      const [oldest] = this.queue.splice(0, 1);
+      this.onDrop(oldest.invocationId, "Dropped from the full outbound queue");
+    }
+    this.queue.push({ invocationId, queuedAt: Date.now(), send });
+  }
+
+  /**
+   * Send the queued invocations in order.
+   * Stops at the first failing send, keeping it and the rest queued.
+   */
+  flush(): void {
+    this.dropExpired();
+    while (this.queue.length) {
+      this.queue[0].send();
+      this.queue.shift();
+    }
+  }
+
+  /**
+   * Drop every queued invocation.
+   * @param reason - The reason the invocations are dropped.
+   */
+  clear(reason: string): void {
+    const queue = this.queue;
+    this.queue = [];
+    for (const { invocationId } of queue) this.onDrop(invocationId, reason);
+  }
+
+  private dropExpired() {
+    if (this.maxAge === undefined) return;
+    const now = Date.now();
+    while (this.queue.length && now - this.queue[0].queuedAt > this.maxAge) {
+      const [expired] = this.queue.splice(0, 1);
+      this.onDrop(
+        expired.invocationId,
+        `Queued for longer than ${this.maxAge}ms`,
+      );
+    }
+  }
+}
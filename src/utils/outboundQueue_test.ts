@@ -0,0 +1,132 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { OutboundQueue, type OutboundQueueOptions } from "./outboundQueue.ts";
+
+/**
+ * Create a queue recording the invocations it sends and drops.
+ */
+function createQueue(options: OutboundQueueOptions = {}) {
+  const sent: number[] = [];
+  const dropped: [number, string][] = [];
+  const queue = new OutboundQueue(
+    options,
+    (invocationId, reason) => dropped.push([invocationId, reason]),
+  );
+  const enqueue = (...invocationIds: number[]) => {
+    for (const invocationId of invocationIds) {
+      queue.enqueue(invocationId, () => sent.push(invocationId));
+    }
+  };
+  return { queue, enqueue, sent, dropped };
+}
+
+/**
+ * Run a function with `Date.now` returning the time from a clock.
+ */
+function withClock<T>(fn: (clock: { now: number }) => T): T {
+  const now = Date.now;
+  const clock = { now: 0 };
+  Date.now = () => clock.now;
+  try {
+    return fn(clock);
+  } finally {
+    Date.now = now;
+  }
+}
+
+Deno.test("flush sends the queued invocations in order", () => {
+  const { queue, enqueue, sent, dropped } = createQueue();
+  enqueue(1, 2, 3);
+  assertEquals(queue.invocationIds, [1, 2, 3]);
+  queue.flush();
+
+  assertEquals(sent, [1, 2, 3]);
+  assertEquals(queue.size, 0);
+  assertEquals(dropped, []);
+});
+
+Deno.test("flush stops at the first failing send", () => {
+  const { queue, enqueue, sent } = createQueue();
+  enqueue(1);
+  queue.enqueue(2, () => {
+    throw new TypeError("Not connected");
+  });
+  enqueue(3);
+
+  assertThrows(() => queue.flush(), TypeError, "Not connected");
+  assertEquals(sent, [1]);
+  assertEquals(queue.invocationIds, [2, 3]);
+});
+
+Deno.test("full queues drop the oldest invocation by default", () => {
+  const { queue, enqueue, dropped } = createQueue({ maxSize: 2 });
+  enqueue(1, 2, 3);
+
+  assertEquals(queue.invocationIds, [2, 3]);
+  assertEquals(dropped, [[1, "Dropped from the full outbound queue"]]);
+});
+
+Deno.test("full queues can drop the newest invocation", () => {
+  const { queue, enqueue, dropped } = createQueue({
+    maxSize: 2,
+    overflow: "dropNewest",
+  });
+  enqueue(1, 2, 3);
+
+  assertEquals(queue.invocationIds, [1, 2]);
+  assertEquals(dropped, [[3, "Dropped from the full outbound queue"]]);
+});
+
+Deno.test("full queues can reject new invocations", () => {
+  const { queue, enqueue, dropped } = createQueue({
+    maxSize: 2,
+    overflow: "reject",
+  });
+  enqueue(1, 2);
+
+  assertThrows(() => enqueue(3), RangeError, "Outbound queue is full");
+  assertEquals(queue.invocationIds, [1, 2]);
+  assertEquals(dropped, []);
+});
+
+Deno.test("invocations older than maxAge are dropped instead of sent", () => {
+  withClock((clock) => {
+    const { queue, enqueue, sent, dropped } = createQueue({ maxAge: 100 });
+    enqueue(1);
+    clock.now = 50;
+    enqueue(2);
+    clock.now = 120;
+    queue.flush();
+
+    assertEquals(sent, [2]);
+    assertEquals(dropped, [[1, "Queued for longer than 100ms"]]);
+  });
+});
+
+Deno.test("expired invocations don't count towards the max size", () => {
+  withClock((clock) => {
+    const { queue, enqueue, dropped } = createQueue({
+      maxSize: 1,
+      maxAge: 100,
+      overflow: "reject",
+    });
+    enqueue(1);
+    clock.now = 150;
+    enqueue(2);
+
+    assertEquals(queue.invocationIds, [2]);
+    assertEquals(dropped, [[1, "Queued for longer than 100ms"]]);
+  });
+});
+
+Deno.test("clear drops every queued invocation with the reason", () => {
+  const { queue, enqueue, sent, dropped } = createQueue();
+  enqueue(1, 2);
+  queue.clear("Connection ended");
+  queue.flush();
+
+  assertEquals(sent, []);
+  assertEquals(dropped, [[1, "Connection ended"], [2, "Connection ended"]]);
+});
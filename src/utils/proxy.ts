@@ -0,0 +1,190 @@
+/**
+ * HTTP proxy options.
+ */
+export interface ProxyOptions {
+  /**
+   * The URL of the proxy, such as `http://proxy.example.com:3128`.
+   * Credentials in the URL are used for basic auth.
+   */
+  url: string;
+  /**
+   * The basic auth credentials for the proxy.
+   */
+  basicAuth?: {
+    username: string;
+    password: string;
+  };
+  /**
+   * Hosts to connect to directly, in the `NO_PROXY` format.
+   * Default: from the `NO_PROXY` environment variable
+   */
+  noProxy?: string[];
+}
+
+/**
+ * A proxy resolved for a URL, with the credentials taken out of its URL.
+ */
+export interface ResolvedProxy {
+  url: string;
+  basicAuth?: {
+    username: string;
+    password: string;
+  };
+}
+
+/**
+ * Read an environment variable without prompting for the permission.
+ *
+ * @param names The variable names, in order of preference
+ */
+function readEnv(...names: string[]): string | undefined {
+  for (const name of names) {
+    const { state } = Deno.permissions.querySync({
+      name: "env",
+      variable: name,
+    });
+    if (state !== "granted") continue;
+    const value = Deno.env.get(name);
+    if (value) return value;
+  }
+}
+
+/**
+ * Check whether a host is excluded from proxying by a `NO_PROXY` list.
+ *
+ * @param hostname The host name
+ * @param port The port
+ * @param noProxy The `NO_PROXY` entries
+ */
+function bypassesProxy(
+  hostname: string,
+  port: string,
+  noProxy: string[],
+): boolean {
+  return noProxy.some((entry) => {
+    entry = entry.trim().toLowerCase();
+    if (!entry) return false;
+    if (entry === "*") return true;
+    const match = entry.match(/^(.*?)(?::(\d+))?$/)!;
+    if (match[2] && match[2] !== port) return false;
+    const domain = match[1].replace(/^\*?\./, "");
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Resolve the proxy to connect to a URL through.
+ *
+ * @param url The URL to connect to
+ * @param proxy The proxy option, false to connect directly, or undefined to
+ * read the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables
+ * @returns The proxy, or undefined to connect directly
+ */
+export function resolveProxy(
+  url: string,
+  proxy?: ProxyOptions | false,
+): ResolvedProxy | undefined {
+  // Proxies are only applied in Deno, other runtimes have their own settings.
+  if (proxy === false || !("Deno" in globalThis)) return;
+  const { protocol, hostname, port } = new URL(url);
+  const secure = protocol === "https:" || protocol === "wss:";
+  const defaultPort = secure ? "443" : "80";
+
+  const proxyUrl = proxy?.url ??
+    (secure
+      ? readEnv("HTTPS_PROXY", "https_proxy")
+      : readEnv("HTTP_PROXY", "http_proxy"));
+  if (!proxyUrl) return;
+  const noProxy = proxy?.noProxy ??
+    readEnv("NO_PROXY", "no_proxy")?.split(",") ?? [];
+  if (
+    bypassesProxy(hostname.toLowerCase(), port || defaultPort, noProxy)
+  ) {
+    return;
+  }
+
+  const parsed = new URL(
+    proxyUrl.includes("://") ? proxyUrl : `http://${proxyUrl}`,
+  );
+  const basicAuth = proxy?.basicAuth ??
+    (parsed.username
+      ? {
+        username: decodeURIComponent(parsed.username),
+        password: decodeURIComponent(parsed.password),
+      }
+      : undefined);
+  parsed.username = "";
+  parsed.password = "";
+  return { url: parsed.origin, basicAuth };
+}
+
+/**
+ * Open a TCP tunnel to a host through an HTTP proxy with a CONNECT request.
+ *
+ * @param proxy The proxy
+ * @param hostname The host name to connect to
+ * @param port The port to connect to
+ */
+export async function connectThroughProxy(
+  proxy: ResolvedProxy,
+  hostname: string,
+  port: number,
+): Promise<Deno.TcpConn> {
+  const proxyUrl = new URL(proxy.url);
+  if (proxyUrl.protocol !== "http:") {
+    throw new Error(
+      `Proxy: Unsupported protocol for tunneling: ${proxyUrl.protocol}`,
+    );
+  }
+  const conn = await Deno.connect({
+    hostname: proxyUrl.hostname,
+    port: parseInt(proxyUrl.port || "80"),
+  });
+
+  try {
+    const authority = `${hostname}:${port}`;
+    let request = `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`;
+    if (proxy.basicAuth) {
+      const { username, password } = proxy.basicAuth;
+      const credentials = new TextEncoder().encode(`${username}:${password}`);
+      request += `Proxy-Authorization: Basic ${
+        btoa(String.fromCharCode(...credentials))
+      }\r\n`;
+    }
+    const bytes = new TextEncoder().encode(`${request}\r\n`);
+    for (let written = 0; written < bytes.length;) {
+      written += await conn.write(bytes.subarray(written));
+    }
+
+    const head = await readResponseHead(conn);
+    const status = head.match(/^HTTP\/1\.[01] (\d{3})/)?.[1];
+    if (status !== "200") {
+      throw new Error(
+        `Proxy: CONNECT ${authority} failed with status ${status ?? "unknown"}`,
+      );
+    }
+    return conn;
+  } catch (error) {
+    conn.close();
+    throw error;
+  }
+}
+
+/**
+ * Read the head of an HTTP response, one byte at a time so that no bytes of
+ * the tunneled connection are consumed.
+ *
+ * @param conn The connection
+ */
+async function readResponseHead(conn: Deno.Conn): Promise<string> {
+  const byte = new Uint8Array(1);
+  let head = "";
+  while (!head.endsWith("\r\n\r\n")) {
+    if (head.length > 16384) throw new Error("Proxy: Response head too large");
+    if (await conn.read(byte) === null) {
+      throw new Error("Proxy: Connection closed during CONNECT");
+    }
+    head += String.fromCharCode(byte[0]);
+  }
+  return head;
+}
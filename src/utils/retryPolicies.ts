@@ -0,0 +1,142 @@
+import type { StandardError } from "../classes/Client.ts";
+
+/**
+ * Information about the reconnect attempt a delay is requested for.
+ */
+export interface RetryContext {
+  /**
+   * The reconnect attempt, starting at 1.
+   */
+  attempt: number;
+  /**
+   * The time since the connection was lost in milliseconds.
+   */
+  elapsedTime: number;
+  /**
+   * The last error emitted before this attempt.
+   */
+  error?: StandardError;
+}
+
+/**
+ * Decides how long to wait before each reconnect attempt.
+ */
+export interface RetryPolicy {
+  /**
+   * Get the delay before the next reconnect attempt in milliseconds.
+   * @param context - The reconnect attempt information.
+   * @returns The delay, or null to stop reconnecting.
+   */
+  nextRetryDelay(context: RetryContext): number | null;
+}
+
+/**
+ * Limits shared by the built-in retry policies.
+ */
+export interface RetryLimits {
+  /**
+   * The maximum amount of reconnect attempts.
+   */
+  maxAttempts?: number;
+  /**
+   * The maximum time since the connection was lost to keep reconnecting for
+   * in milliseconds.
+   */
+  maxElapsedTime?: number;
+}
+
+/**
+ * Options for the exponential backoff retry policy.
+ */
+export interface ExponentialBackoffOptions extends RetryLimits {
+  /**
+   * The delay before the first attempt in milliseconds. Default: 1000
+   */
+  initialDelay?: number;
+  /**
+   * The maximum delay in milliseconds. Default: 30000
+   */
+  maxDelay?: number;
+  /**
+   * The factor the delay grows by with each attempt. Default: 2
+   */
+  multiplier?: number;
+  /**
+   * The fraction of the delay to randomize by, between 0 and 1. Default: 0.2
+   */
+  jitter?: number;
+}
+
+/**
+ * Check whether a reconnect attempt exceeds the limits.
+ *
+ * @param context The reconnect attempt information
+ * @param limits The retry limits
+ */
+function exceedsLimits(context: RetryContext, limits: RetryLimits): boolean {
+  return (limits.maxAttempts !== undefined &&
+    context.attempt > limits.maxAttempts) ||
+    (limits.maxElapsedTime !== undefined &&
+      context.elapsedTime > limits.maxElapsedTime);
+}
+
+/**
+ * Creates a retry policy which waits the same delay before every attempt.
+ *
+ * @param delay The delay in milliseconds
+ * @param limits The retry limits
+ * @example
+ * const client = new Client(url, hubs, {
+ *     retryPolicy: fixedDelay(5000, { maxAttempts: 10 })
+ * })
+ */
+export function fixedDelay(
+  delay: number,
+  limits: RetryLimits = {},
+): RetryPolicy {
+  return {
+    nextRetryDelay: (context) => exceedsLimits(context, limits) ? null : delay,
+  };
+}
+
+/**
+ * Creates a retry policy which grows the delay exponentially with each
+ * attempt, randomized so that clients don't reconnect in lock-step.
+ *
+ * @param options The backoff options
+ * @example
+ * const client = new Client(url, hubs, {
+ *     retryPolicy: exponentialBackoff({ maxDelay: 60000, maxElapsedTime: 600000 })
+ * })
+ */
+export function exponentialBackoff(
+  options: ExponentialBackoffOptions = {},
+): RetryPolicy {
+  const {
+    initialDelay = 1000,
+    maxDelay = 30000,
+    multiplier = 2,
+    jitter = 0.2,
+  } = options;
+
+  return {
+    nextRetryDelay: (context) => {
+      if (exceedsLimits(context, options)) return null;
+      const delay = Math.min(
+        initialDelay * multiplier ** (context.attempt - 1),
+        maxDelay,
+      );
+      return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+    },
+  };
+}
+
+/**
+ * Information about an upcoming reconnect attempt, emitted with `reconnecting`.
+ */
+export interface ReconnectingEvent extends RetryContext {
+  /**
+   * The delay before the attempt in milliseconds.
+   */
+  delay: number;
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  exponentialBackoff,
+  fixedDelay,
+  type RetryPolicy,
+} from "./retryPolicies.ts";
+
+/**
+ * Get the delays of the first attempts, a second apart.
+ */
+function delays(policy: RetryPolicy, attempts: number): (number | null)[] {
+  return Array.from(
+    { length: attempts },
+    (_, index) =>
+      policy.nextRetryDelay({
+        attempt: index + 1,
+        elapsedTime: index * 1000,
+      }),
+  );
+}
+
+/**
+ * Run a function with `Math.random` returning a fixed value.
+ */
+function withRandom<T>(value: number, fn: () => T): T {
+  const random = Math.random;
+  Math.random = () => value;
+  try {
+    return fn();
+  } finally {
+    Math.random = random;
+  }
+}
+
+Deno.test("fixedDelay waits the same delay before every attempt", () => {
+  assertEquals(delays(fixedDelay(500), 4), [500, 500, 500, 500]);
+});
+
+Deno.test("fixedDelay stops after the max attempts", () => {
+  assertEquals(
+    delays(fixedDelay(500, { maxAttempts: 2 }), 4),
+    [500, 500, null, null],
+  );
+});
+
+Deno.test("fixedDelay stops after the max elapsed time", () => {
+  assertEquals(
+    delays(fixedDelay(500, { maxElapsedTime: 1000 }), 4),
+    [500, 500, null, null],
+  );
+});
+
+Deno.test("exponentialBackoff grows the delay up to the max delay", () => {
+  const policy = exponentialBackoff({ jitter: 0 });
+  assertEquals(
+    delays(policy, 7),
+    [1000, 2000, 4000, 8000, 16000, 30000, 30000],
+  );
+  assertEquals(
+    delays(
+      exponentialBackoff({
+        initialDelay: 100,
+        multiplier: 3,
+        maxDelay: 1000,
+        jitter: 0,
+      }),
+      4,
+    ),
+    [100, 300, 900, 1000],
+  );
+});
+
+Deno.test("exponentialBackoff stops after the max attempts", () => {
+  assertEquals(
+    delays(exponentialBackoff({ jitter: 0, maxAttempts: 3 }), 5),
+    [1000, 2000, 4000, null, null],
+  );
+  assertEquals(
+    delays(exponentialBackoff({ jitter: 0, maxElapsedTime: 2000 }), 5),
+    [1000, 2000, 4000, null, null],
+  );
+});
+
+Deno.test("exponentialBackoff randomizes the delay within the jitter", () => {
+  const policy = exponentialBackoff({ initialDelay: 1000, jitter: 0.2 });
+  assertEquals(withRandom(0, () => delays(policy, 2)), [800, 1600]);
+  assertEquals(withRandom(0.5, () => delays(policy, 2)), [1000, 2000]);
+  assertEquals(withRandom(0.999999, () => delays(policy, 2)), [1200, 2400]);
+
+  for (let attempt = 1; attempt <= 10; attempt++) {
+    const delay = policy.nextRetryDelay({ attempt, elapsedTime: 0 })!;
+    const base = Math.min(1000 * 2 ** (attempt - 1), 30000);
+    assertEquals(delay >= base * 0.8 && delay <= base * 1.2, true);
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * A stream which can be sent to the server as an invocation argument.
+ */
+export type StreamArgument<T = unknown> = AsyncIterable<T> | ReadableStream<T>;
+
+/**
+ * Check whether an invocation argument is a stream.
+ * @param value - The invocation argument.
+ */
+export function isStreamArgument(value: unknown): value is StreamArgument {
+  if (
+    typeof ReadableStream !== "undefined" && value instanceof ReadableStream
+  ) {
+    return true;
+  }
+  return typeof value === "object" && value !== null &&
+    Symbol.asyncIterator in value;
+}
+
+/**
+ * Read the items of a stream argument.
+ * @param stream - The stream argument.
+ */
+export async function* readStreamArgument<T>(
+  stream: StreamArgument<T>,
+): AsyncGenerator<T> {
+  if (
+    !(typeof ReadableStream !== "undefined" && stream instanceof ReadableStream)
+  ) {
+    yield* stream as AsyncIterable<T>;
+    return;
+  }
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,79 @@
+import { connectThroughProxy, type ResolvedProxy } from "./proxy.ts";
+
+/**
+ * TLS options for connecting to servers with a private CA or mutual TLS.
+ */
+export interface TlsOptions {
+  /**
+   * Root certificates in PEM format to trust in addition to the default ones.
+   */
+  caCerts?: string[];
+  /**
+   * The client certificate chain in PEM format, for mutual TLS.
+   */
+  cert?: string;
+  /**
+   * The private key of the client certificate in PEM format.
+   */
+  key?: string;
+  /**
+   * The server name to send with SNI and verify the certificate against,
+   * instead of the host of the URL. Only applies to WebSocket connections,
+   * as `Deno.HttpClient` can't override it.
+   */
+  serverName?: string;
+}
+
+/**
+ * Open a TLS connection, through a proxy when given.
+ *
+ * @param hostname The host name to connect to
+ * @param port The port to connect to
+ * @param tls The TLS options
+ * @param proxy The proxy to tunnel the connection through
+ */
+export async function connectTls(
+  hostname: string,
+  port: number,
+  tls: TlsOptions = {},
+  proxy?: ResolvedProxy,
+): Promise<Deno.TlsConn> {
+  const { caCerts, cert, key, serverName } = tls;
+  if (!proxy && !serverName) {
+    return await Deno.connectTls(
+      cert && key
+        ? { hostname, port, caCerts, cert, key }
+        : { hostname, port, caCerts },
+    );
+  }
+
+  // Deno can only present client certificates when it opens the connection.
+  if (cert || key) {
+    throw new Error(
+      "TLS: Client certificates can't be used with a proxy or server name",
+    );
+  }
+  const conn = proxy
+    ? await connectThroughProxy(proxy, hostname, port)
+    : await Deno.connect({ hostname, port });
+  return await Deno.startTls(conn, {
+    hostname: serverName ?? hostname,
+    caCerts,
+  });
+}
+
+/**
+ * Create the HTTP client to fetch with for a proxy and TLS options.
+ *
+ * @param proxy The proxy
+ * @param tls The TLS options
+ */
+export function createHttpClient(
+  proxy?: ResolvedProxy,
+  tls: TlsOptions = {},
+): Deno.HttpClient {
+  const { caCerts, cert, key } = tls;
+  return Deno.createHttpClient(
+    cert && key ? { proxy, caCerts, cert, key } : { proxy, caCerts },
+  );
+}